@@ -0,0 +1,57 @@
+// Precaches the app shell, question bank and KaTeX fonts listed in precache-manifest.json,
+// which the build writes next to this file. Each build registers the worker as
+// /sw.js?v=<version>, so a new version installs into its own cache alongside the old one.
+// Only caches are touched here: attempts and review data live in localStorage and survive updates.
+const CACHE_PREFIX = 'jee-qb-';
+const version = new URL(self.location.href).searchParams.get('v') ?? 'dev';
+const cacheName = `${CACHE_PREFIX}${version}`;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    fetch(`/precache-manifest.json?v=${version}`, { cache: 'no-store' })
+      .then((response) => response.json())
+      .then(({ files }) => caches.open(cacheName).then((cache) => cache.addAll(files)))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== cacheName).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page asks a waiting worker to take over once the user accepts the update
+self.addEventListener('message', (event) => {
+  if (event.data === 'skip-waiting') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // The classroom server's API must always be live
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname === '/precache-manifest.json' || url.pathname.startsWith('/api/')) return;
+
+  // Every route of the SPA is served by the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      caches.open(cacheName).then((cache) => cache.match('/index.html').then((cached) => cached ?? fetch(request)))
+    );
+    return;
+  }
+
+  event.respondWith(
+    caches.open(cacheName).then((cache) =>
+      cache.match(request).then(
+        (cached) =>
+          cached ??
+          fetch(request).then((response) => {
+            if (response.ok) cache.put(request, response.clone());
+            return response;
+          })
+      )
+    )
+  );
+});
@@ -0,0 +1,76 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { ImportStatus, buildImportedEntries, diffAgainstBank, parseAnswerKey, parseTexPaper } from '../src/lib/importer';
+import { SUBJECT_IDS } from '../src/lib/validation';
+import { SubjectId } from '../src/types/question';
+
+// Usage: tsx scripts/import-paper.ts <paper.tex> --description "JEE Adv 2024 Paper 1"
+//          [--key answers.csv] [--subject phy] [--bank src/data/quiz.json] [--out imported.json] [--write]
+const args = process.argv.slice(2);
+
+const option = (name: string) => {
+  const position = args.indexOf(`--${name}`);
+  return position === -1 ? undefined : args[position + 1];
+};
+const optionValues = new Set(['description', 'key', 'subject', 'bank', 'out'].map(option));
+
+const texFile = args.find((arg) => !arg.startsWith('--') && !optionValues.has(arg));
+const description = option('description');
+const subject = option('subject');
+const bankFile = resolve(option('bank') ?? 'src/data/quiz.json');
+const write = args.includes('--write');
+
+if (!texFile || !description) {
+  console.error('Usage: tsx scripts/import-paper.ts <paper.tex> --description "<exam> <year> Paper <n>" [--key answers.csv] [--subject phy|chem|math] [--bank quiz.json] [--out file.json] [--write]');
+  process.exit(1);
+}
+if (subject && !SUBJECT_IDS.includes(subject as SubjectId)) {
+  console.error(`Unknown subject "${subject}", expected one of ${SUBJECT_IDS.join(', ')}`);
+  process.exit(1);
+}
+
+const read = (file: string) => {
+  try {
+    return readFileSync(resolve(file), 'utf8');
+  } catch (error) {
+    console.error(`Could not read ${file}:`, error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+};
+
+const questions = parseTexPaper(read(texFile));
+const keyFile = option('key');
+const key = keyFile ? parseAnswerKey(read(keyFile), description) : new Map();
+const entries = buildImportedEntries(questions, key, description, (subject as SubjectId | undefined) ?? null);
+
+const bank = JSON.parse(read(bankFile)) as { questions: Parameters<typeof diffAgainstBank>[1] };
+const report = diffAgainstBank(entries, bank.questions);
+
+const LABELS: Record<ImportStatus, string> = {
+  new: 'NEW',
+  duplicate: 'DUPLICATE',
+  conflict: 'CONFLICT',
+  invalid: 'INVALID',
+};
+
+report.forEach((item) => {
+  console.log(`${LABELS[item.status].padEnd(9)} ${item.id} (${item.entry.subject ?? 'no subject'}, ${item.entry.type}, gold "${item.entry.gold}")`);
+  item.messages.forEach((message) => console.log(`          ${message}`));
+});
+
+const counts = Object.fromEntries(Object.keys(LABELS).map((status) => [status, report.filter((item) => item.status === status).length]));
+console.log(`\n${questions.length} questions read: ${counts.new} new, ${counts.duplicate} duplicate, ${counts.conflict} conflicting, ${counts.invalid} invalid`);
+
+const fresh = report.filter((item) => item.status === 'new').map((item) => item.entry);
+const out = option('out');
+if (out) {
+  writeFileSync(resolve(out), JSON.stringify({ questions: fresh }, null, 2));
+  console.log(`Wrote ${fresh.length} new questions to ${out}`);
+}
+// Only clean, new questions are ever written into the bank; conflicts need a human decision
+if (write) {
+  writeFileSync(bankFile, JSON.stringify({ ...bank, questions: [...bank.questions, ...fresh] }, null, 2));
+  console.log(`Added ${fresh.length} questions to ${bankFile}`);
+}
+
+process.exit(counts.conflict > 0 || counts.invalid > 0 ? 1 : 0);
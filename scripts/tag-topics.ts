@@ -0,0 +1,37 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { suggestTopic } from '../src/lib/topics';
+
+// Usage: tsx scripts/tag-topics.ts [quiz.json] [--write] [--retag]
+const args = process.argv.slice(2);
+const write = args.includes('--write');
+const retag = args.includes('--retag');
+const file = resolve(args.find((arg) => !arg.startsWith('--')) ?? 'src/data/quiz.json');
+
+const data = JSON.parse(readFileSync(file, 'utf8')) as { questions: Record<string, unknown>[] };
+const counts = new Map<string, number>();
+let tagged = 0;
+
+data.questions = data.questions.map((q) => {
+  if (q.topic && !retag) return q;
+  const topic = suggestTopic({ subject: String(q.subject), question: String(q.question) });
+  const key = `${q.subject}/${topic ?? '(none)'}`;
+  counts.set(key, (counts.get(key) ?? 0) + 1);
+  if (!topic) return q;
+  tagged++;
+
+  // Keep "topic" next to "subject" so diffs stay readable
+  const entries = Object.entries(q).filter(([name]) => name !== 'topic');
+  const position = entries.findIndex(([name]) => name === 'subject') + 1;
+  entries.splice(position, 0, ['topic', topic]);
+  return Object.fromEntries(entries);
+});
+
+Array.from(counts.entries())
+  .sort(([a], [b]) => a.localeCompare(b))
+  .forEach(([key, count]) => console.log(`${key}: ${count}`));
+console.log(`${tagged} questions tagged${write ? '' : ' (dry run, pass --write to save)'}`);
+
+if (write) {
+  writeFileSync(file, JSON.stringify(data, null, 2));
+}
@@ -0,0 +1,23 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { validateQuestionBank } from '../src/lib/validation';
+
+const file = resolve(process.argv[2] ?? 'src/data/quiz.json');
+
+let data: unknown;
+try {
+  data = JSON.parse(readFileSync(file, 'utf8'));
+} catch (error) {
+  console.error(`Could not read ${file}:`, error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
+const { questions, issues } = validateQuestionBank(data);
+
+issues.forEach((issue) => {
+  const label = issue.id ? `${issue.id} (entry ${issue.position})` : `entry ${issue.position}`;
+  console.error(`${label}: ${issue.message}`);
+});
+
+console.log(`${questions.length} valid questions, ${issues.length} issues in ${file}`);
+process.exit(issues.length > 0 ? 1 : 0);
@@ -0,0 +1,212 @@
+import { randomUUID } from 'node:crypto';
+import { existsSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs';
+import { IncomingMessage, ServerResponse, createServer } from 'node:http';
+import { extname, join, resolve, sep } from 'node:path';
+import { Assignment, Submission, summarizeResults } from '../src/lib/classroom';
+import { Attempt, validateAttempt } from '../src/lib/history';
+
+// Usage: tsx server/classroom.ts
+// Environment: PORT (default 8787), CLASSROOM_DATA (default classroom-data.json),
+// CLASSROOM_TEACHER_KEY (when set, required to create assignments and read results)
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_FILE = resolve(process.env.CLASSROOM_DATA ?? 'classroom-data.json');
+const TEACHER_KEY = process.env.CLASSROOM_TEACHER_KEY;
+const STATIC_DIR = resolve('dist');
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+interface ClassroomData {
+  assignments: Assignment[];
+  submissions: Submission[];
+}
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const load = (): ClassroomData =>
+  existsSync(DATA_FILE)
+    ? (JSON.parse(readFileSync(DATA_FILE, 'utf8')) as ClassroomData)
+    : { assignments: [], submissions: [] };
+
+const data = load();
+
+// Write to a temporary file first so a crash never leaves a half-written store
+const persist = () => {
+  writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(data, null, 2));
+  renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+};
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<Record<string, unknown>> =>
+  new Promise((resolveBody, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const body: unknown = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) throw new Error();
+        resolveBody(body as Record<string, unknown>);
+      } catch {
+        reject(new HttpError(400, 'Body must be a JSON object'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const requireTeacher = (req: IncomingMessage) => {
+  if (TEACHER_KEY && req.headers['x-teacher-key'] !== TEACHER_KEY) {
+    throw new HttpError(401, 'Teacher key required');
+  }
+};
+
+const findAssignment = (id: string) => {
+  const assignment = data.assignments.find((a) => a.id === id);
+  if (!assignment) throw new HttpError(404, `No assignment ${id}`);
+  return assignment;
+};
+
+const nonEmptyString = (value: unknown, field: string) => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, `${field} must be a non-empty string`);
+  return value.trim();
+};
+
+const createAssignment = (body: Record<string, unknown>): Assignment => {
+  const { questionIds } = body;
+  if (!Array.isArray(questionIds) || questionIds.length === 0 || !questionIds.every((id) => typeof id === 'string')) {
+    throw new HttpError(400, 'questionIds must be a non-empty list of question ids');
+  }
+  const assignment: Assignment = {
+    id: randomUUID(),
+    title: nonEmptyString(body.title, 'title'),
+    batch: typeof body.batch === 'string' ? body.batch.trim() : '',
+    questionIds,
+    createdAt: Date.now(),
+  };
+  data.assignments.push(assignment);
+  persist();
+  return assignment;
+};
+
+// A student's latest submission replaces their earlier ones
+const submitAttempt = (assignment: Assignment, body: Record<string, unknown>): Submission => {
+  const student = nonEmptyString(body.student, 'student');
+  // Checked in full, since one malformed attempt would break the results of the whole assignment
+  const errors = validateAttempt(body.attempt);
+  if (errors.length > 0) throw new HttpError(400, `attempt must be a saved quiz attempt: ${errors.slice(0, 5).join('; ')}`);
+  const attempt = body.attempt as Attempt;
+
+  const submission: Submission = { id: randomUUID(), assignmentId: assignment.id, student, submittedAt: Date.now(), attempt };
+  data.submissions = data.submissions.filter(
+    (s) => !(s.assignmentId === assignment.id && s.student.toLowerCase() === student.toLowerCase())
+  );
+  data.submissions.push(submission);
+  persist();
+  return submission;
+};
+
+const handleApi = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+  const [, , resource, id, action] = url.pathname.split('/');
+  if (resource !== 'assignments') throw new HttpError(404, 'Not found');
+
+  if (!id && req.method === 'GET') {
+    const batch = url.searchParams.get('batch');
+    // Assignments without a batch are set for all batches
+    return send(res, 200, data.assignments.filter((a) => batch === null || a.batch === batch || a.batch === ''));
+  }
+  if (!id && req.method === 'POST') {
+    requireTeacher(req);
+    return send(res, 201, createAssignment(await readBody(req)));
+  }
+  if (id && !action && req.method === 'GET') {
+    return send(res, 200, findAssignment(id));
+  }
+  if (id && action === 'submissions' && req.method === 'POST') {
+    return send(res, 201, submitAttempt(findAssignment(id), await readBody(req)));
+  }
+  if (id && action === 'results' && req.method === 'GET') {
+    requireTeacher(req);
+    const assignment = findAssignment(id);
+    return send(res, 200, summarizeResults(assignment, data.submissions.filter((s) => s.assignmentId === id)));
+  }
+  throw new HttpError(405, 'Method not allowed');
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.html': 'text/html',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.webmanifest': 'application/manifest+json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.woff2': 'font/woff2',
+  '.woff': 'font/woff',
+  '.ttf': 'font/ttf',
+};
+
+// Serves the built app when dist/ exists, so students only need the server's address
+const serveStatic = (res: ServerResponse, url: URL) => {
+  let pathname: string;
+  try {
+    pathname = decodeURIComponent(url.pathname);
+  } catch {
+    throw new HttpError(400, 'Malformed path');
+  }
+  const requested = resolve(join(STATIC_DIR, pathname));
+  const isFile = requested.startsWith(STATIC_DIR + sep) && existsSync(requested) && statSync(requested).isFile();
+  const file = isFile ? requested : join(STATIC_DIR, 'index.html');
+  if (!existsSync(file)) throw new HttpError(404, 'Not found; run "npm run build" to serve the app from here');
+
+  res.writeHead(200, { 'Content-Type': CONTENT_TYPES[extname(file)] ?? 'application/octet-stream' });
+  res.end(readFileSync(file));
+};
+
+const server = createServer(async (req, res) => {
+  // The app may be served from another origin, e.g. the Vite dev server
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, X-Teacher-Key');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  try {
+    if (url.pathname.startsWith('/api/')) {
+      await handleApi(req, res, url);
+    } else {
+      serveStatic(res, url);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      send(res, error.status, { error: error.message });
+    } else {
+      console.error(error);
+      send(res, 500, { error: 'Internal server error' });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Classroom server on http://localhost:${PORT} (data: ${DATA_FILE}${TEACHER_KEY ? ', teacher key required' : ''})`);
+});
@@ -1,140 +1,121 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Brain, CheckCircle2, XCircle, BookOpen, Download, Copy, Github } from 'lucide-react';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
-import quizData from './data/quiz.json';
+import { useState, useMemo, useEffect, useCallback, useReducer, useRef } from 'react';
+import { Brain, CheckCircle2, XCircle, BookOpen, Download, Copy, Github, Clock, FileText, History, RotateCcw, SlidersHorizontal, Share2, ChevronLeft, Flag, Eraser, Send, Lightbulb, Search, PenLine, Keyboard, MinusCircle } from 'lucide-react';
+import { bankManifest, hasQuestion, loadQuestionsById, loadQuestionsForUrl } from './lib/questionBank';
 import 'katex/dist/katex.min.css';
-import katex from 'katex';
+import { renderMath } from './lib/renderMath';
+import { OPTION_LETTERS, parseOptions } from './lib/options';
+import { exportQuestionPaperPdf, exportReviewPdf } from './lib/pdfExport';
+import { HintUsage, MarkStatus, getMarkingScheme, scoreQuestions } from './lib/marking';
+import { PAPER_DURATION_MS, listPapers } from './lib/papers';
+import { SUBJECTS } from './lib/subjects';
+import { SavedSession, clearSession, createAttempt, loadAttempts, loadSession, saveAttempt, saveSession, summarizeBy, topicKey } from './lib/history';
+import { calibrate, difficultyLabel, outcomeScore, pickAdaptiveQuestion, questionRating, updateRatings } from './lib/difficulty';
+import { questionId } from './lib/validation';
+import { REVIEW_SESSION_SIZE, getDueItems, recordAttemptReviews, recordReview } from './lib/review';
+import { OptionLetter, Question, SubjectId } from './types/question';
+import { initialQuizSession, quizSessionReducer, timeSpentOn, toSavedSession } from './lib/quizSession';
+import HistoryView from './components/HistoryView';
+import PracticeBuilder from './components/PracticeBuilder';
+import QuestionEditor from './components/QuestionEditor';
+import SearchView from './components/SearchView';
+import QuestionPalette from './components/QuestionPalette';
+import SubmitSummary from './components/SubmitSummary';
+import TopicBreakdown from './components/TopicBreakdown';
+import ClassroomPanel from './components/ClassroomPanel';
+import TeacherDashboard from './components/TeacherDashboard';
+import LoadingScreen from './components/LoadingScreen';
+import QuestionBankGate from './components/QuestionBankGate';
+import ShortcutsHelp from './components/ShortcutsHelp';
+import { quizCommandFor } from './lib/shortcuts';
+import { THEMES, Theme, applyTheme } from './lib/theme';
+import { isAnswered } from './lib/examStatus';
+import { PracticeFilters, filterQuestions } from './lib/practice';
+import { generateSeed } from './lib/random';
+import { HINT_PENALTY_OPTIONS, Settings, loadSettings, saveSettings } from './lib/settings';
+import { Assignment, submitAttempt } from './lib/classroom';
+import { QuizUrlState, decodeQuizUrl, encodeQuizUrl, quizKey, resolveQuizUrl } from './lib/urlState';
 
 
-const Table = ({ content }: { content: string }) => {
-  const rows = content
-    .split("\\\\")
-    .map((row) => row.trim())
-    .filter((row) => row !== "\\hline" && row !== "");
-
-  const headers = rows[0].split("&").map((cell) => cell.trim());
-  const bodyRows = rows.slice(1);
+// Spelled out so the review does not rely on its red and green alone
+const REVIEW_STATUS_LABELS: Record<MarkStatus, string> = {
+  correct: 'Correct',
+  partial: 'Partially correct',
+  incorrect: 'Incorrect',
+  unattempted: 'Not answered',
+};
 
-  return (
-    <div className="overflow-x-auto flex justify-center my-4">
-      <table className="min-w-[50%] divide-y divide-gray-200">
-        <thead>
-          <tr>
-            {headers.map((header, index) => (
-              <th
-                key={index}
-                className="px-6 py-3 bg-gray-50 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
-              >
-                {renderMathInline(header)}
-              </th>
-            ))}
-          </tr>
-        </thead>
-        <tbody className="bg-white divide-y divide-gray-200">
-          {bodyRows.map((row, rowIndex) => (
-            <tr key={rowIndex}>
-              {row.split("&").map((cell, cellIndex) => (
-                <td key={cellIndex} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                  {renderMathInline(cell.trim())}
-                </td>
-              ))}
-            </tr>
-          ))}
-        </tbody>
-      </table>
-    </div>
-  );
+// The status comes from the marks awarded, so a partly right MCQ(multiple) answer is not shown as wrong
+const CORRECT_STYLE = { card: 'bg-green-50 border-green-200', icon: CheckCircle2, iconColor: 'text-green-600', labelColor: 'text-green-700' };
+const WRONG_STYLE = { card: 'bg-red-50 border-red-200', icon: XCircle, iconColor: 'text-red-600', labelColor: 'text-red-700' };
+const REVIEW_STATUS_STYLES: Record<MarkStatus, typeof CORRECT_STYLE> = {
+  correct: CORRECT_STYLE,
+  partial: { card: 'bg-amber-50 border-amber-200', icon: MinusCircle, iconColor: 'text-amber-600', labelColor: 'text-amber-700' },
+  incorrect: WRONG_STYLE,
+  unattempted: WRONG_STYLE,
 };
 
-const renderMathInline = (text: string) => {
-  return text.split("$").map((part, index) => {
-    if (index % 2 === 1) {
-      try {
-        return (
-          <span
-            key={index}
-            dangerouslySetInnerHTML={{
-              __html: katex.renderToString(part, { throwOnError: false }),
-            }}
-          />
-        );
-      } catch (error) {
-        console.error("KaTeX rendering error:", error);
-        return <span key={index}>{part}</span>;
-      }
-    }
-    return part;
-  });
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map((n) => n.toString().padStart(2, '0')).join(':');
 };
 
-const renderMath = (text: string) => {
-  // First handle display math mode as a whole
-  if (text.includes("\\[") && text.includes("\\]")) {
-    const parts = text.split(/(\\\[[\s\S]*?\\\])/);
-    return (
-      <>
-        {parts.map((part, index) => {
-          if (part.startsWith("\\[") && part.endsWith("\\]")) {
-            const mathContent = part.slice(2, -2);
-            try {
-              return (
-                <div key={index} className="flex justify-center my-4">
-                  <div
-                    dangerouslySetInnerHTML={{
-                      __html: katex.renderToString(mathContent.trim(), {
-                        throwOnError: false,
-                        displayMode: true
-                      }),
-                    }}
-                  />
-                </div>
-              );
-            } catch (error) {
-              console.error("KaTeX rendering error:", error);
-              return <div key={index}>{mathContent}</div>;
-            }
-          } else {
-            // Handle the text before and after the display math
-            const textParts = part.split(/\n+/);
-            return textParts.map((textPart, textIndex) => {
-              if (!textPart.trim()) return null;
-              return (
-                <p key={`${index}-${textIndex}`} className="my-2">
-                  {renderMathInline(textPart)}
-                </p>
-              );
-            });
-          }
-        })}
-      </>
-    );
-  }
+const Countdown = ({ deadline, onExpire }: { deadline: number; onExpire: () => void }) => {
+  const [remaining, setRemaining] = useState(deadline - Date.now());
 
-  // Then handle other cases
-  const parts = text.split(/\n+/);
-  return parts.map((part, index) => {
-    if (part.includes("\\begin{center}") && part.includes("\\begin{tabular}")) {
-      const tableContent = part.match(/\\begin{tabular}([\s\S]*?)\\end{tabular}/)?.[1];
-      return tableContent ? <Table key={index} content={tableContent} /> : part;
-    } else if (part.trim() === "\\begin{center}" || part.trim() === "\\end{center}") {
-      return null;
-    } else {
-      return (
-        <p key={index} className="my-2">
-          {renderMathInline(part)}
-        </p>
-      );
-    }
-  });
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const left = deadline - Date.now();
+      setRemaining(left);
+      if (left <= 0) {
+        clearInterval(timer);
+        onExpire();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [deadline, onExpire]);
+
+  return (
+    <div className={`flex items-center gap-1 font-mono text-sm ${remaining < 10 * 60 * 1000 ? 'text-red-600' : 'text-gray-700'}`}>
+      <Clock className="w-4 h-4" />
+      {formatCountdown(remaining)}
+    </div>
+  );
 };
 
-const SubjectSelection = ({ onSelectSubject }: { onSelectSubject: (subject: string) => void }) => {
-  const subjects = [
-    { id: 'math', name: 'Mathematics', color: 'bg-blue-500' },
-    { id: 'phy', name: 'Physics', color: 'bg-green-500' },
-    { id: 'chem', name: 'Chemistry', color: 'bg-purple-500' }
-  ];
+const SubjectSelection = ({
+  onSelectSubject,
+  onSelectPaper,
+  onSelectDueReview,
+  onCustomPractice,
+  onSearch,
+  onShowHistory,
+  onOpenEditor,
+  onStartAssignment,
+  onOpenDashboard,
+}: {
+  onSelectSubject: (subject: SubjectId) => void;
+  onSelectPaper: (paper: string) => void;
+  onSelectDueReview: () => void;
+  onCustomPractice: () => void;
+  onSearch: () => void;
+  onShowHistory: () => void;
+  onOpenEditor: () => void;
+  onStartAssignment: (assignment: Assignment) => void;
+  onOpenDashboard: () => void;
+}) => {
+  const papers = useMemo(() => listPapers(bankManifest), []);
+  const dueCount = useMemo(() => getDueItems().filter((item) => hasQuestion(item.id)).length, []);
+  const [paper, setPaper] = useState(papers[0] ?? '');
+  const [settings, setSettings] = useState(loadSettings);
+
+  const updateSettings = (changes: Partial<Settings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveSettings(next);
+  };
 
   return (
     <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
@@ -145,7 +126,7 @@ const SubjectSelection = ({ onSelectSubject }: { onSelectSubject: (subject: stri
           <p className="text-gray-600 mt-2">Select a subject to start practicing</p>
         </div>
         <div className="space-y-4">
-          {subjects.map((subject) => (
+          {SUBJECTS.map((subject) => (
             <button
               key={subject.id}
               onClick={() => onSelectSubject(subject.id)}
@@ -154,104 +135,502 @@ const SubjectSelection = ({ onSelectSubject }: { onSelectSubject: (subject: stri
               <span>{subject.name}</span>
             </button>
           ))}
+          <button
+            onClick={onSelectDueReview}
+            disabled={dueCount === 0}
+            className={`w-full p-4 rounded-lg font-semibold transition-opacity flex items-center justify-center gap-2 ${dueCount > 0
+              ? 'bg-amber-500 text-white hover:opacity-90'
+              : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+              }`}
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Due for review ({dueCount})</span>
+          </button>
+          <button
+            onClick={onCustomPractice}
+            className="w-full p-4 rounded-lg border border-indigo-200 text-indigo-700 font-semibold hover:bg-indigo-50 transition-colors flex items-center justify-center gap-2"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+            <span>Custom practice set</span>
+          </button>
+          <button
+            onClick={onSearch}
+            className="w-full p-4 rounded-lg border border-gray-200 text-gray-700 font-semibold hover:bg-gray-50 transition-colors flex items-center justify-center gap-2"
+          >
+            <Search className="w-4 h-4" />
+            <span>Search the question bank</span>
+          </button>
         </div>
+        <div className="mt-8 pt-6 border-t border-gray-200">
+          <h2 className="text-sm font-medium text-gray-700 mb-2">Full paper mock test (3 hours)</h2>
+          <div className="flex gap-2">
+            <select
+              value={paper}
+              onChange={(e) => setPaper(e.target.value)}
+              className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+            >
+              {papers.map((description) => (
+                <option key={description} value={description}>
+                  {description}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => paper && onSelectPaper(paper)}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-800 text-white hover:bg-gray-900 transition-colors"
+            >
+              <FileText className="w-4 h-4" />
+              Start
+            </button>
+          </div>
+        </div>
+        <div className="mt-6 flex items-center justify-between gap-2 text-sm text-gray-700">
+          <label htmlFor="hint-penalty">Hint penalty (practice only)</label>
+          <select
+            id="hint-penalty"
+            value={settings.hintPenalty}
+            onChange={(e) => updateSettings({ hintPenalty: Number(e.target.value) })}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+          >
+            {HINT_PENALTY_OPTIONS.map((penalty) => (
+              <option key={penalty} value={penalty}>
+                {penalty === 0 ? 'None' : `${penalty * 100}% of the question's marks`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-3 flex items-center justify-between gap-2 text-sm text-gray-700">
+          <label htmlFor="theme">Theme</label>
+          <select
+            id="theme"
+            value={settings.theme}
+            onChange={(e) => {
+              const theme = e.target.value as Theme;
+              updateSettings({ theme });
+              applyTheme(theme);
+            }}
+            className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+          >
+            {THEMES.map((theme) => (
+              <option key={theme.id} value={theme.id}>
+                {theme.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-6 pt-6 border-t border-gray-200">
+          <ClassroomPanel
+            settings={settings}
+            onChangeSettings={updateSettings}
+            onStartAssignment={onStartAssignment}
+            onOpenDashboard={onOpenDashboard}
+          />
+        </div>
+        <button
+          onClick={onShowHistory}
+          className="mt-6 w-full flex items-center justify-center gap-2 text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          <History className="w-4 h-4" />
+          View progress and history
+        </button>
+        <button
+          onClick={onOpenEditor}
+          className="mt-3 w-full flex items-center justify-center gap-2 text-sm text-gray-500 hover:text-gray-700"
+        >
+          <PenLine className="w-4 h-4" />
+          Write or edit questions
+        </button>
       </div>
     </div>
   );
 };
 
+// An in-progress quiz is only restored if all of its questions still exist in the bank
+const restoreSession = (): SavedSession | null => {
+  const session = loadSession();
+  if (!session) return null;
+  if (!session.questionIds.every(hasQuestion)) {
+    clearSession();
+    return null;
+  }
+  return session;
+};
+
+// A fresh session with nothing answered yet, for sets that are not described by a URL
+const newSession = (): SavedSession => ({
+  selectedSubject: null,
+  selectedPaper: null,
+  deadline: null,
+  startTime: null,
+  questionIds: [],
+  currentQuestion: 0,
+  answers: {},
+  timePerQuestion: {},
+});
+
+const sessionFromUrl = async (state: QuizUrlState): Promise<SavedSession> => ({
+  singleQuestionId: state.id ?? null,
+  selectedSubject: state.subject ?? null,
+  selectedPaper: state.paper ?? null,
+  practiceFilters: state.filters ?? null,
+  seed: state.seed ?? null,
+  deadline: state.paper ? Date.now() + PAPER_DURATION_MS : null,
+  startTime: null,
+  questionIds: resolveQuizUrl(state, await loadQuestionsForUrl(state)).map(questionId),
+  currentQuestion: state.question,
+  answers: {},
+  timePerQuestion: {},
+});
+
+const urlStateOf = (session: SavedSession): QuizUrlState => ({
+  id: session.singleQuestionId ?? undefined,
+  subject: session.selectedSubject ?? undefined,
+  paper: session.selectedPaper ?? undefined,
+  filters: session.practiceFilters ?? undefined,
+  seed: session.seed ?? undefined,
+  question: session.currentQuestion,
+});
+
+// A shared link takes precedence over the saved session, unless both describe the same quiz
+const resolveInitialSession = async (): Promise<SavedSession | null> => {
+  const session = restoreSession();
+  const urlState = decodeQuizUrl(window.location.search);
+  if (!urlState) return session;
+
+  if (session && !session.isDueReview && !session.assignment && !session.adaptiveAbility && quizKey(urlStateOf(session)) === quizKey(urlState)) {
+    return { ...session, currentQuestion: urlState.question };
+  }
+  const fromUrl = await sessionFromUrl(urlState);
+  return fromUrl.questionIds.length > 0 ? fromUrl : session;
+};
+
 function App() {
-  const [showToast, setShowToast] = useState(false);
-  const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
-  const [startTime, setStartTime] = useState<number | null>(null);
-  const [questionStartTime, setQuestionStartTime] = useState<number | null>(null);
-  const [timePerQuestion, setTimePerQuestion] = useState<Record<number, number>>({});
-  const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [answers, setAnswers] = useState<Record<number, string[]>>({});
-  const [showResults, setShowResults] = useState(false);
-  const [isReviewMode, setIsReviewMode] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [session, dispatch] = useReducer(quizSessionReducer, initialQuizSession);
+  const [classroomStatus, setClassroomStatus] = useState<string | null>(null);
+  const [showBuilder, setShowBuilder] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [showEditor, setShowEditor] = useState(false);
+  const [showDashboard, setShowDashboard] = useState(false);
+  const [showSubmitSummary, setShowSubmitSummary] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const headingRef = useRef<HTMLHeadingElement>(null);
+  const reviewedRef = useRef<Set<number>>(new Set());
+  const [attemptSaved, setAttemptSaved] = useState(false);
   const [exporting, setExporting] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [failedLoad, setFailedLoad] = useState<(() => Promise<void>) | null>(null);
 
-  const filteredQuestions = useMemo(() => {
-    if (!selectedSubject) return [];
-    const subjectQuestions = quizData.questions.filter(q => q.subject === selectedSubject);
-    // Randomly select 20 questions
-    return subjectQuestions
-      .sort(() => Math.random() - 0.5)
-      .slice(0, 20);
-  }, [selectedSubject]);
-
-  const questions = filteredQuestions;
-  const currentQ = questions[currentQuestion];
-
-
-  const handleAnswer = (answer: string) => {
-    // Record time spent on current question
-    if (questionStartTime) {
-      const timeSpent = Date.now() - questionStartTime; // Keep in milliseconds
-      setTimePerQuestion(prev => ({
-        ...prev,
-        [currentQuestion]: timeSpent
-      }));
+  const {
+    phase, selectedSubject, selectedPaper, isDueReview, singleQuestionId, assignment, adaptiveAbility, practiceFilters, seed,
+    deadline, startTime, hintPenalty, questions, currentQuestion, answers, timePerQuestion, visited, marked, hintsUsed,
+  } = session;
+  const currentQ = phase === 'idle' ? undefined : questions[currentQuestion];
+  const hints: HintUsage = { used: hintsUsed, penalty: hintPenalty };
+
+  const showToast = (message: string) => {
+    setToast(message);
+    setTimeout(() => setToast(null), 2000);
+  };
+
+  // Clipboard access can be denied by the browser, so success is only reported once the write went through
+  const copyToClipboard = (text: string, message: string) =>
+    navigator.clipboard.writeText(text).then(
+      () => showToast(message),
+      (error) => {
+        console.error('Could not copy to clipboard:', error);
+        showToast('Could not copy: the browser blocked clipboard access');
+      }
+    );
+
+  // Question chunks load on demand; a failed load can be retried from the error screen
+  const withQuestions = useCallback((task: () => Promise<void>) => {
+    setLoading(true);
+    setFailedLoad(null);
+    task()
+      .catch((error: unknown) => {
+        console.error('Could not load questions:', error);
+        setFailedLoad(() => task);
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  // The hint penalty in the settings applies to sessions that did not record their own
+  const startSession = useCallback((saved: SavedSession, loaded: Question[]) =>
+    dispatch({
+      type: 'start',
+      session: { ...saved, hintPenalty: saved.hintPenalty ?? loadSettings().hintPenalty },
+      questions: loaded,
+      now: Date.now(),
+    }), []);
+
+  const applySession = useCallback(async (saved: SavedSession) => {
+    startSession(saved, await loadQuestionsById(saved.questionIds));
+  }, [startSession]);
+
+  useEffect(() => {
+    withQuestions(async () => {
+      const session = await resolveInitialSession();
+      if (session) await applySession(session);
+    });
+  }, [withQuestions, applySession]);
+
+  const startFromUrl = (state: QuizUrlState) => {
+    setShowBuilder(false);
+    setShowSearch(false);
+    withQuestions(async () => applySession(await sessionFromUrl(state)));
+  };
+
+  const handleSelectSubject = (subject: SubjectId) => startFromUrl({ subject, seed: generateSeed(), question: 0 });
+
+  // Adaptive sessions start from one question near the current ability estimate and add the rest as they go
+  const handleStartPractice = (filters: PracticeFilters, adaptive: boolean) => {
+    if (!adaptive) {
+      startFromUrl({ filters, seed: generateSeed(), question: 0 });
+      return;
     }
-    setAnswers({
-      ...answers,
-      [currentQuestion]: [answer],
+    setShowBuilder(false);
+    withQuestions(async () => {
+      const pool = filterQuestions(await loadQuestionsForUrl({ filters, question: 0 }), filters);
+      const calibration = calibrate(loadAttempts());
+      const first = pickAdaptiveQuestion(pool, new Set(), calibration.ability.rating, calibration);
+      startSession(
+        { ...newSession(), practiceFilters: filters, adaptiveAbility: calibration.ability },
+        first ? [first] : []
+      );
+    });
+  };
+
+  const handleOpenQuestion = (question: Question) => startFromUrl({ id: questionId(question), question: 0 });
+
+  const handleSelectDueReview = () =>
+    withQuestions(async () => {
+      const due = getDueItems().map((item) => item.id).filter(hasQuestion).slice(0, REVIEW_SESSION_SIZE);
+      startSession({ ...newSession(), isDueReview: true }, await loadQuestionsById(due));
+    });
+
+  // Assignment questions are fixed by the teacher, so like review sets they stay out of the URL
+  const handleStartAssignment = ({ id, title, questionIds }: Assignment) =>
+    withQuestions(async () => {
+      startSession({ ...newSession(), assignment: { id, title } }, await loadQuestionsById(questionIds));
     });
+
+  const resetQuiz = () => {
+    clearSession();
+    dispatch({ type: 'reset' });
+    setClassroomStatus(null);
+    setShowSubmitSummary(false);
+    reviewedRef.current = new Set();
+    setAttemptSaved(false);
   };
 
   useEffect(() => {
-    if (selectedSubject && !startTime) {
-      setStartTime(Date.now());
+    if (session.phase === 'answering' || session.phase === 'paused') saveSession(toSavedSession(session));
+  }, [session]);
+
+  // Time with the page hidden is not counted towards the question on screen
+  useEffect(() => {
+    const handleVisibilityChange = () =>
+      dispatch({ type: document.hidden ? 'pause' : 'resume', now: Date.now() });
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Due-for-review and adaptive sets depend on local history and assignments on the server, so none is reflected in the URL
+  const urlState: QuizUrlState | null = phase !== 'idle' && !isDueReview && !assignment && !adaptiveAbility
+    ? {
+      id: singleQuestionId ?? undefined,
+      subject: selectedSubject ?? undefined,
+      paper: selectedPaper ?? undefined,
+      filters: practiceFilters ?? undefined,
+      seed: seed ?? undefined,
+      question: currentQuestion,
     }
-  }, [selectedSubject, startTime]);
+    : null;
+  const search = urlState ? encodeQuizUrl(urlState) : '';
 
+  // Waits for loading so a shared link is not replaced before its questions arrive
   useEffect(() => {
-    setQuestionStartTime(Date.now());
-  }, [currentQuestion]);
-
-  const handleMultiAnswer = (answer: string) => {
-    const currentAnswers = answers[currentQuestion] || [];
-    const newAnswers = currentAnswers.includes(answer)
-      ? currentAnswers.filter((a) => a !== answer)
-      : [...currentAnswers, answer].sort();
-
-    setAnswers({
-      ...answers,
-      [currentQuestion]: newAnswers,
-    });
+    if (!loading && window.location.search !== search) {
+      window.history.pushState(null, '', `${window.location.pathname}${search}`);
+    }
+  }, [loading, search]);
+
+  // Back/forward move between questions of the same quiz, or leave it
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = decodeQuizUrl(window.location.search);
+      if (!state) {
+        resetQuiz();
+      } else if (urlState && quizKey(state) === quizKey(urlState)) {
+        dispatch({ type: 'navigate', index: state.question, now: Date.now() });
+      } else {
+        resetQuiz();
+        startFromUrl(state);
+      }
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  });
+
+  useEffect(() => {
+    if (phase !== 'submitted' || attemptSaved) return;
+    const attempt = createAttempt(
+      assignment?.title ?? singleQuestionId ?? selectedPaper ?? selectedSubject ?? (isDueReview ? 'Review' : adaptiveAbility ? 'Adaptive practice' : 'Custom practice'),
+      questions,
+      answers,
+      timePerQuestion,
+      startTime ?? Date.now(),
+      { used: hintsUsed, penalty: hintPenalty }
+    );
+    // Review sessions update the queue after every answer instead
+    if (!isDueReview) recordAttemptReviews(attempt);
+    saveAttempt(attempt);
+    clearSession();
+    setAttemptSaved(true);
+
+    const { classroomUrl, studentName } = loadSettings();
+    if (assignment && classroomUrl) {
+      setClassroomStatus('Sending your answers to the teacher…');
+      submitAttempt({ url: classroomUrl, assignmentId: assignment.id, student: studentName, attempt })
+        .then((sent) => setClassroomStatus(sent ? 'Answers sent to the teacher' : 'Offline: your answers will be sent when the server is reachable'))
+        .catch((error: Error) => setClassroomStatus(`Could not send your answers: ${error.message}`));
+    }
+  }, [phase, attemptSaved, assignment, adaptiveAbility, singleQuestionId, selectedPaper, selectedSubject, isDueReview, questions, answers, timePerQuestion, startTime, hintsUsed, hintPenalty]);
+
+  const handleAnswer = (answer: string) => dispatch({ type: 'answer', answer });
+
+  const handleSelectPaper = (paper: string) => startFromUrl({ paper, question: 0 });
+
+  const handleTimeUp = useCallback(() => dispatch({ type: 'submit', now: Date.now() }), []);
+
+  // Screen readers announce the new question instead of staying on the button that moved there
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, [currentQuestion, questions]);
+
+  const handleMultiAnswer = (option: string) => dispatch({ type: 'toggleOption', option });
+
+  // Review sessions reschedule each question once, the first time it is left with an answer
+  const recordDueReview = () => {
+    if (!currentQ || !isDueReview || reviewedRef.current.has(currentQuestion) || !isAnswered(answers[currentQuestion])) return;
+    const { status } = getMarkingScheme(currentQ.description).markQuestion(currentQ, answers[currentQuestion]);
+    recordReview(questionId(currentQ), status);
+    reviewedRef.current.add(currentQuestion);
   };
 
-  const handleNext = () => {
+  const goTo = (index: number) => {
+    recordDueReview();
+    dispatch({ type: 'navigate', index, now: Date.now() });
+  };
+
+  // Rates the answer to the current question and appends the unused question closest to the updated ability
+  const extendAdaptiveSession = async () => {
+    if (!currentQ || !adaptiveAbility || !practiceFilters) return;
+    const pool = filterQuestions(await loadQuestionsForUrl({ filters: practiceFilters, question: 0 }), practiceFilters);
+    const calibration = calibrate(loadAttempts());
+    const answer = answers[currentQuestion];
+    const mark = getMarkingScheme(currentQ.description).markQuestion(currentQ, answer);
+    const [ability] = isAnswered(answer)
+      ? updateRatings(adaptiveAbility, questionRating(calibration, currentQ), outcomeScore(mark.marks, mark.maxMarks, timeSpentOn(session, currentQuestion, Date.now())))
+      : [adaptiveAbility];
+    const next = pickAdaptiveQuestion(pool, new Set(questions.map(questionId)), ability.rating, calibration);
+    if (!next) {
+      setShowSubmitSummary(true);
+      return;
+    }
+    dispatch({ type: 'append', question: next, ability, now: Date.now() });
+  };
+
+  const advance = () => {
     if (currentQuestion < questions.length - 1) {
-      setCurrentQuestion(currentQuestion + 1);
+      goTo(currentQuestion + 1);
+    } else if (adaptiveAbility && practiceFilters && questions.length < practiceFilters.count) {
+      extendAdaptiveSession().catch((error: unknown) => {
+        console.error('Could not load the next question:', error);
+        showToast('Could not load the next question. Check your connection and try again.');
+      });
     } else {
-      setShowResults(true);
+      recordDueReview();
+      setShowSubmitSummary(true);
     }
   };
 
-  const calculateScore = () => {
-    let score = 0;
-    questions.forEach((q, index) => {
-      const userAnswer = answers[index] || [];
-      if (q.type === "MCQ(multiple)") {
-        if (userAnswer.join('') === q.gold) {
-          score++;
-        }
-      } else {
-        if (userAnswer[0] === q.gold) {
-          score++;
-        }
-      }
-    });
-    return score;
+  const handleSaveNext = () => {
+    dispatch({ type: 'mark', marked: false });
+    advance();
+  };
+
+  const handleMarkNext = () => {
+    dispatch({ type: 'mark', marked: true });
+    advance();
   };
 
-  if (showResults && !isReviewMode) {
-    const score = calculateScore();
+  const handleClearResponse = () => dispatch({ type: 'clear' });
+
+  const handleUseHint = () => dispatch({ type: 'useHint' });
+
+  const handleSubmit = () => {
+    recordDueReview();
+    setShowSubmitSummary(false);
+    dispatch({ type: 'submit', now: Date.now() });
+  };
+
+  useEffect(() => {
+    if (!currentQ || phase !== 'answering' || showSubmitSummary || showShortcuts || loading) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const command = quizCommandFor(event);
+      if (!command) return;
+      event.preventDefault();
+      switch (command.kind) {
+        case 'option':
+          if (currentQ.type === 'MCQ') handleAnswer(command.option);
+          else if (currentQ.type === 'MCQ(multiple)') handleMultiAnswer(command.option);
+          break;
+        case 'next':
+          handleSaveNext();
+          break;
+        case 'previous':
+          goTo(currentQuestion - 1);
+          break;
+        case 'mark':
+          handleMarkNext();
+          break;
+        case 'clear':
+          handleClearResponse();
+          break;
+        case 'hint':
+          if (currentQ.hint && !selectedPaper) handleUseHint();
+          break;
+        case 'submit':
+          setShowSubmitSummary(true);
+          break;
+        case 'help':
+          setShowShortcuts(true);
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (loading || failedLoad) {
+    return (
+      <LoadingScreen
+        error={failedLoad !== null}
+        onRetry={() => failedLoad && withQuestions(failedLoad)}
+        onBack={() => setFailedLoad(null)}
+      />
+    );
+  }
+
+  if (phase === 'submitted') {
+    const { marks, maxMarks, correct } = scoreQuestions(questions, answers, hints);
     const totalTime = startTime ? Math.floor((Date.now() - startTime) / 1000) : 0;
     const averageTimePerQuestion = Object.values(timePerQuestion).reduce((acc, curr) => acc + curr, 0) / questions.length / 1000;
-    const percentage = (score / questions.length) * 100;
+    const percentage = maxMarks > 0 ? (marks / maxMarks) * 100 : 0;
+    const byTopic = summarizeBy([createAttempt('', questions, answers, timePerQuestion, startTime ?? Date.now(), hints)], topicKey);
 
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
@@ -259,25 +638,31 @@ function App() {
           <div className="text-center">
             <Brain className="w-16 h-16 mx-auto text-indigo-600 mb-4" />
             <h1 className="text-2xl font-bold text-gray-900 mb-2">Quiz Results</h1>
-            <div className="text-5xl font-bold text-indigo-600 mb-4">
-              {percentage.toFixed(1)}%
+            <div className="text-5xl font-bold text-indigo-600 mb-2">
+              {marks} / {maxMarks}
             </div>
+            <p className="text-lg text-gray-500 mb-4">{percentage.toFixed(1)}%</p>
             <p className="text-gray-600 mb-6">
-              You got {score} out of {questions.length} questions correct
+              You got {correct} out of {questions.length} questions correct
             </p>
             <div className="text-sm text-gray-600 mb-6">
               <p>Total Time: {Math.floor(totalTime / 60)}m {totalTime % 60}s</p>
               <p>Average Time per Question: {averageTimePerQuestion.toFixed(1)}s</p>
             </div>
+            {classroomStatus && <p className="text-sm text-indigo-700 mb-6">{classroomStatus}</p>}
+            <div className="text-left mb-6">
+              <h3 className="font-medium text-gray-900 mb-2">By topic</h3>
+              <TopicBreakdown summaries={byTopic} />
+            </div>
             <div className="space-x-4">
               <button
-                onClick={() => setIsReviewMode(true)}
+                onClick={() => dispatch({ type: 'review' })}
                 className="bg-indigo-600 text-white px-6 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
               >
                 Review Answers
               </button>
               <button
-                onClick={() => window.location.reload()}
+                onClick={resetQuiz}
                 className="bg-gray-600 text-white px-6 py-2 rounded-lg hover:bg-gray-700 transition-colors"
               >
                 Try Again
@@ -289,39 +674,12 @@ function App() {
     );
   }
 
-  const exportToPDF = async () => {
-    const reviewContent = document.getElementById('review-content');
-    if (!reviewContent) return;
-
+  const runExport = async (exporter: () => Promise<void>) => {
     // Show loading state
     setExporting(true);
 
     try {
-      const canvas = await html2canvas(reviewContent, {
-        scale: 2,
-        useCORS: true,
-        logging: false
-      });
-
-      const imgWidth = 210; // A4 width in mm
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-
-      const pdf = new jsPDF({
-        orientation: imgHeight > imgWidth ? 'portrait' : 'landscape',
-        unit: 'mm',
-      });
-
-      pdf.addImage(
-        canvas.toDataURL('image/jpeg', 0.9),
-        'JPEG',
-        0,
-        0,
-        imgWidth,
-        imgHeight
-      );
-
-      // Save the PDF
-      pdf.save(`quiz-review-${new Date().toISOString().split('T')[0]}.pdf`);
+      await exporter();
     } catch (error) {
       console.error('Error generating PDF:', error);
     }
@@ -330,7 +688,11 @@ function App() {
     setExporting(false);
   };
 
-  if (isReviewMode) {
+  if (phase === 'review') {
+    const { breakdown, marks, maxMarks } = scoreQuestions(questions, answers, hints);
+    const paperTitle = selectedPaper ?? 'Question Paper';
+    const calibration = calibrate(loadAttempts());
+
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
         <div className="bg-white rounded-xl shadow-lg p-8 max-w-2xl w-full">
@@ -338,7 +700,7 @@ function App() {
             <h2 className="text-2xl font-bold text-gray-900">Review Answers</h2>
             <div className="flex items-center gap-4">
               <button
-                onClick={exportToPDF}
+                onClick={() => runExport(() => exportReviewPdf({ questions, answers, timePerQuestion, breakdown, marks, maxMarks }))}
                 disabled={exporting}
                 className={`flex items-center gap-2 px-4 py-2 text-white rounded-lg transition-colors ${exporting ? 'bg-gray-400' : 'bg-indigo-600 hover:bg-indigo-700'}`}
               >
@@ -346,7 +708,16 @@ function App() {
                 {exporting ? 'Exporting...' : 'Export PDF'}
               </button>
               <button
-                onClick={() => setIsReviewMode(false)}
+                onClick={() => runExport(() => exportQuestionPaperPdf(paperTitle, questions))}
+                disabled={exporting}
+                className="flex items-center gap-2 text-gray-600 hover:text-gray-800"
+                title="Blank question paper with answer key"
+              >
+                <FileText className="w-4 h-4" />
+                Worksheet
+              </button>
+              <button
+                onClick={() => dispatch({ type: 'closeReview' })}
                 className="text-gray-600 hover:text-gray-800"
               >
                 Back to Results
@@ -356,25 +727,37 @@ function App() {
           <div id="review-content" className="space-y-8">
             {questions.map((q, index) => {
               const userAnswers = answers[index] || [];
-              const isCorrect = JSON.stringify(userAnswers.sort()) === JSON.stringify(q.gold.split('').sort());
               const timeSpent = timePerQuestion[index] || 0;
               const timeInSeconds = (timeSpent / 1000).toFixed(1);
+              const mark = breakdown[index];
+              const rating = questionRating(calibration, q);
+              const { card, icon: StatusIcon, iconColor, labelColor } = REVIEW_STATUS_STYLES[mark.status];
 
               return (
-                <div key={index} className={`p-6 rounded-lg border ${isCorrect ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'} mb-4`}>
+                <div key={index} className={`p-6 rounded-lg border ${card} mb-4`}>
                   <div className="flex items-start gap-4">
-                    {isCorrect ? (
-                      <CheckCircle2 className="w-6 h-6 text-green-600 flex-shrink-0" />
-                    ) : (
-                      <XCircle className="w-6 h-6 text-red-600 flex-shrink-0" />
-                    )}
+                    <div className="flex flex-col items-center gap-1 flex-shrink-0">
+                      <StatusIcon className={`w-6 h-6 ${iconColor}`} aria-hidden="true" />
+                      <span className={`text-xs font-medium ${labelColor}`}>
+                        {REVIEW_STATUS_LABELS[mark.status]}
+                      </span>
+                    </div>
                     <div className="w-full">
                       <div className="flex justify-between items-center mb-2">
                         <h3 className="font-medium text-gray-900">
                           Question {index + 1}
+                          <span
+                            className="ml-2 text-xs font-normal text-gray-500"
+                            title={rating.count > 0
+                              ? `Rated ${Math.round(rating.rating)} from your ${rating.count} answers on this device; your ability is ${Math.round(calibration.ability.rating)}`
+                              : 'You have not answered this question before'}
+                          >
+                            {rating.count > 0 ? `${difficultyLabel(rating, calibration.ability.rating)} for you` : difficultyLabel(rating, calibration.ability.rating)}
+                          </span>
                         </h3>
                         <span className="text-sm text-gray-600">
-                          Time spent: {timeInSeconds}s
+                          Marks: {mark.marks > 0 ? `+${mark.marks}` : mark.marks} / {mark.maxMarks}
+                          {mark.hintUsed && ' (hint used)'} · Time spent: {timeInSeconds}s
                         </span>
                       </div>
                       <div className="text-lg text-gray-800 mb-4 p-4 bg-white rounded border">
@@ -390,6 +773,12 @@ function App() {
                           <p className="text-lg font-medium">{q.gold.split('').join(', ')}</p>
                         </div>
                       </div>
+                      {q.solution && (
+                        <div className="mt-4 p-4 bg-white rounded border">
+                          <p className="text-sm font-medium text-gray-500 mb-2">Solution</p>
+                          <div className="text-gray-800 overflow-x-auto">{renderMath(q.solution)}</div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -401,15 +790,75 @@ function App() {
     );
   }
 
-  if (!selectedSubject) {
-    return <SubjectSelection onSelectSubject={setSelectedSubject} />;
+  if (showHistory) {
+    return <HistoryView onBack={() => setShowHistory(false)} />;
+  }
+
+  if (showEditor) {
+    return (
+      <QuestionBankGate onBack={() => setShowEditor(false)}>
+        {(bank) => <QuestionEditor questions={bank} onBack={() => setShowEditor(false)} />}
+      </QuestionBankGate>
+    );
+  }
+
+  if (showSearch) {
+    return (
+      <QuestionBankGate onBack={() => setShowSearch(false)}>
+        {(bank) => <SearchView questions={bank} onOpen={handleOpenQuestion} onBack={() => setShowSearch(false)} />}
+      </QuestionBankGate>
+    );
+  }
+
+  if (showDashboard) {
+    return <TeacherDashboard serverUrl={loadSettings().classroomUrl} onBack={() => setShowDashboard(false)} />;
+  }
+
+  if (showBuilder) {
+    return (
+      <QuestionBankGate onBack={() => setShowBuilder(false)}>
+        {(bank) => <PracticeBuilder questions={bank} onStart={handleStartPractice} onBack={() => setShowBuilder(false)} />}
+      </QuestionBankGate>
+    );
+  }
+
+  if (!currentQ) {
+    return (
+      <SubjectSelection
+        onSelectSubject={handleSelectSubject}
+        onSelectPaper={handleSelectPaper}
+        onSelectDueReview={handleSelectDueReview}
+        onCustomPractice={() => setShowBuilder(true)}
+        onSearch={() => setShowSearch(true)}
+        onShowHistory={() => setShowHistory(true)}
+        onOpenEditor={() => setShowEditor(true)}
+        onStartAssignment={handleStartAssignment}
+        onOpenDashboard={() => setShowDashboard(true)}
+      />
+    );
   }
 
+  // Falls back to bare letters when the options can't be split off the stem
+  const parsedOptions = currentQ.type === 'MCQ' || currentQ.type === 'MCQ(multiple)' ? parseOptions(currentQ.question) : null;
+  const renderOptionLabel = (option: OptionLetter) =>
+    parsedOptions ? (
+      <div className="flex items-start gap-3 min-w-0">
+        <span className="font-semibold">({option})</span>
+        <div className="flex-1 min-w-0 overflow-x-auto [&>p]:my-0">{renderMath(parsedOptions.options[option])}</div>
+      </div>
+    ) : (
+      option
+    );
+
+  const sections = SUBJECTS
+    .map((subject) => ({ ...subject, start: questions.findIndex((q) => q.subject === subject.id) }))
+    .filter((section) => section.start !== -1);
+
   return (
     <div className="min-h-screen bg-gray-50 relative py-16 px-4">
-      {showToast && (
-        <div className="fixed top-4 right-4 bg-gray-800 text-white px-4 py-2 rounded-md shadow-lg z-50 animate-fade-in-out max-w-[90%] sm:max-w-md">
-          Question copied to clipboard, open QuickLaTeX to view the question
+      {toast && (
+        <div role="status" aria-live="polite" className="fixed top-4 right-4 bg-gray-800 text-white px-4 py-2 rounded-md shadow-lg z-50 animate-fade-in-out max-w-[90%] sm:max-w-md">
+          {toast}
         </div>
       )}
 
@@ -424,14 +873,38 @@ function App() {
             <Github className="w-5 h-5" />
             <span className="text-sm hidden sm:inline">View on GitHub</span>
           </a>
-          <div className="text-gray-600 text-sm max-w-[200px] sm:max-w-xs text-right truncate">
-            {currentQ.description}
+          <div className="flex items-center gap-4">
+            {deadline && <Countdown deadline={deadline} onExpire={handleTimeUp} />}
+            <button
+              onClick={() => setShowShortcuts(true)}
+              className="text-gray-600 hover:text-gray-900 transition-colors"
+              title="Keyboard shortcuts (?)"
+              aria-label="Keyboard shortcuts"
+            >
+              <Keyboard className="w-5 h-5" />
+            </button>
+            {urlState && (
+              <button
+                onClick={() => {
+                  const link = `${window.location.origin}${window.location.pathname}${encodeQuizUrl({ ...urlState, question: 0 })}`;
+                  copyToClipboard(link, 'Link copied: everyone who opens it gets the same questions');
+                }}
+                className="text-gray-600 hover:text-gray-900 transition-colors"
+                title="Copy shareable link"
+                aria-label="Copy shareable link"
+              >
+                <Share2 className="w-5 h-5" />
+              </button>
+            )}
+            <div className="text-gray-600 text-sm max-w-[200px] sm:max-w-xs text-right truncate">
+              {currentQ.description}
+            </div>
           </div>
         </div>
       </div>
 
-      <div className="flex items-center justify-center min-h-screen">
-        <div className="bg-white rounded-xl shadow-lg p-4 sm:p-8 w-full max-w-2xl mx-auto">
+      <div className="flex flex-col lg:flex-row items-center lg:items-start justify-center gap-6 min-h-screen pt-8">
+        <div className="bg-white rounded-xl shadow-lg p-4 sm:p-8 w-full max-w-2xl">
           <div className="mb-6 sm:mb-8">
             {/* <div className="flex flex-col sm:flex-row items-start sm:items-center gap-2 text-sm text-gray-600 mb-4 bg-gray-50 p-3 rounded-lg">
               <BookOpen className="w-4 h-4" />
@@ -442,31 +915,44 @@ function App() {
             </div> */}
 
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-4">
-              <h2 className="text-xl font-semibold text-gray-900">
-                Question {currentQuestion + 1} of {questions.length}
+              <h2 ref={headingRef} tabIndex={-1} className="text-xl font-semibold text-gray-900 outline-none">
+                {singleQuestionId ? `Question ${currentQ.index}` : `Question ${currentQuestion + 1} of ${questions.length}`}
               </h2>
-              <div className="flex items-center gap-2 w-full sm:w-auto">
-                <label htmlFor="questionSelect" className="text-sm font-medium text-gray-700 whitespace-nowrap">
-                  Go to Question:
-                </label>
-                <input
-                  id="questionSelect"
-                  type="number"
-                  min={1}
-                  max={questions.length}
-                  value={currentQuestion + 1}
-                  onChange={(e) => {
-                    const value = parseInt(e.target.value) - 1;
-                    if (value >= 0 && value < questions.length) {
-                      setCurrentQuestion(value);
-                    }
-                  }}
-                  className="block w-20 rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
-                />
-              </div>
+              <button
+                onClick={() => setShowSubmitSummary(true)}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-800 text-white hover:bg-gray-900 transition-colors text-sm"
+              >
+                <Send className="w-4 h-4" />
+                Submit
+              </button>
             </div>
 
-            <div className="w-full bg-gray-200 rounded-full h-2">
+            {selectedPaper && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {sections.map((section) => (
+                  <button
+                    key={section.id}
+                    onClick={() => goTo(section.start)}
+                    aria-pressed={currentQ.subject === section.id}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${currentQ.subject === section.id
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                  >
+                    {section.name}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <div
+              className="w-full bg-gray-200 rounded-full h-2"
+              role="progressbar"
+              aria-label="Progress"
+              aria-valuemin={1}
+              aria-valuemax={questions.length}
+              aria-valuenow={currentQuestion + 1}
+            >
               <div
                 className="bg-indigo-600 h-2 rounded-full transition-all duration-300"
                 style={{
@@ -480,45 +966,74 @@ function App() {
             <div className="text-lg text-gray-800 mb-6">
               <div className="relative group">
                 <div className="max-h-[50vh] overflow-y-auto overflow-x-auto px-2">
-                  {renderMath(currentQ.question)}
+                  {renderMath(parsedOptions?.stem ?? currentQ.question)}
                 </div>
                 <button
                   onClick={() => {
-                    navigator.clipboard.writeText(currentQ.question);
-                    setShowToast(true);
-                    setTimeout(() => setShowToast(false), 2000);
+                    copyToClipboard(currentQ.question, 'Question copied to clipboard, open QuickLaTeX to view the question');
                   }}
                   className="absolute top-2 right-2 p-2 bg-white rounded-full shadow-sm opacity-0 group-hover:opacity-100 transition-opacity"
                   title="Copy question"
+                  aria-label="Copy question"
                 >
                   <Copy className="w-5 h-5 text-gray-500 hover:text-gray-700" />
                 </button>
               </div>
             </div>
 
+            {/* Full papers are mock exams, so hints are only offered in practice */}
+            {currentQ.hint && !selectedPaper && (
+              <div className="mb-6">
+                {hintsUsed[currentQuestion] ? (
+                  <div className="p-4 rounded-lg bg-amber-50 border border-amber-200 text-gray-800">
+                    <p className="flex items-center gap-1 text-sm font-medium text-amber-700 mb-2">
+                      <Lightbulb className="w-4 h-4" />
+                      Hint
+                    </p>
+                    <div className="overflow-x-auto">{renderMath(currentQ.hint)}</div>
+                  </div>
+                ) : (
+                  <button
+                    onClick={handleUseHint}
+                    className="flex items-center gap-1 text-sm text-amber-700 hover:text-amber-900"
+                  >
+                    <Lightbulb className="w-4 h-4" />
+                    Show hint{hintPenalty > 0 && ` (costs ${hintPenalty * 100}% of this question's marks)`}
+                  </button>
+                )}
+              </div>
+            )}
+
             <div className="space-y-3">
               {currentQ.type === "MCQ" && (
                 <div className="space-y-2">
-                  {["A", "B", "C", "D"].map((option) => (
+                  {OPTION_LETTERS.map((option) => (
                     <button
                       key={option}
                       onClick={() => handleAnswer(option)}
+                      aria-pressed={answers[currentQuestion]?.[0] === option}
                       className={`w-full text-left p-4 rounded-lg border transition-all ${answers[currentQuestion]?.[0] === option
                         ? 'border-indigo-600 bg-indigo-50'
                         : 'border-gray-200 hover:border-indigo-300'
                         }`}
                     >
-                      {option}
+                      <div className="flex items-center">
+                        {renderOptionLabel(option)}
+                        {answers[currentQuestion]?.[0] === option && (
+                          <CheckCircle2 className="w-5 h-5 text-indigo-600 ml-auto pl-2 flex-shrink-0" aria-hidden="true" />
+                        )}
+                      </div>
                     </button>
                   ))}
                 </div>
               )}
               {currentQ.type === "MCQ(multiple)" && (
                 <div className="space-y-2">
-                  {["A", "B", "C", "D"].map((option) => (
+                  {OPTION_LETTERS.map((option) => (
                     <button
                       key={option}
                       onClick={() => handleMultiAnswer(option)}
+                      aria-pressed={answers[currentQuestion]?.includes(option) ?? false}
                       className={`w-full text-left p-4 rounded-lg border transition-all ${answers[currentQuestion]?.includes(option)
                         ? 'border-indigo-600 bg-indigo-50'
                         : 'border-gray-200 hover:border-indigo-300'
@@ -526,11 +1041,11 @@ function App() {
                     >
                       <div className="flex items-center">
                         {answers[currentQuestion]?.includes(option) ? (
-                          <CheckCircle2 className="w-5 h-5 text-indigo-600 mr-3" />
+                          <CheckCircle2 className="w-5 h-5 text-indigo-600 mr-3 flex-shrink-0" aria-hidden="true" />
                         ) : (
-                          <XCircle className="w-5 h-5 text-gray-300 mr-3" />
+                          <XCircle className="w-5 h-5 text-gray-300 mr-3 flex-shrink-0" aria-hidden="true" />
                         )}
-                        {option}
+                        {renderOptionLabel(option)}
                       </div>
                     </button>
                   ))}
@@ -541,6 +1056,7 @@ function App() {
                   type="number"
                   value={answers[currentQuestion]?.[0] || ''}
                   onChange={(e) => handleAnswer(e.target.value)}
+                  aria-label="Your answer"
                   className="w-full p-4 rounded-lg border border-gray-200 focus:border-indigo-600 focus:ring-2 focus:ring-indigo-200 outline-none transition-all"
                   placeholder="Enter your answer..."
                 />
@@ -548,20 +1064,66 @@ function App() {
             </div>
           </div>
 
-          <div className="flex justify-end mt-6">
-            <button
-              onClick={handleNext}
-              disabled={!answers[currentQuestion]}
-              className={`w-full sm:w-auto px-6 py-2 rounded-lg transition-all ${answers[currentQuestion]
-                ? 'bg-indigo-600 text-white hover:bg-indigo-700'
-                : 'bg-gray-200 text-gray-400 cursor-not-allowed'
-                }`}
-            >
-              {currentQuestion === questions.length - 1 ? 'Finish' : 'Next'}
-            </button>
+          <div className="flex flex-col sm:flex-row flex-wrap gap-2 justify-between mt-6">
+            <div className="flex gap-2">
+              <button
+                onClick={() => goTo(currentQuestion - 1)}
+                disabled={currentQuestion === 0}
+                className={`flex items-center gap-1 px-4 py-2 rounded-lg border transition-all ${currentQuestion === 0
+                  ? 'border-gray-200 text-gray-300 cursor-not-allowed'
+                  : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+              >
+                <ChevronLeft className="w-4 h-4" />
+                Previous
+              </button>
+              <button
+                onClick={handleClearResponse}
+                className="flex items-center gap-1 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 transition-all"
+              >
+                <Eraser className="w-4 h-4" />
+                Clear Response
+              </button>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={handleMarkNext}
+                className="flex items-center gap-1 px-4 py-2 rounded-lg bg-purple-600 text-white hover:bg-purple-700 transition-all"
+              >
+                <Flag className="w-4 h-4" />
+                Mark for Review & Next
+              </button>
+              <button
+                onClick={handleSaveNext}
+                className="px-6 py-2 rounded-lg bg-green-600 text-white hover:bg-green-700 transition-all"
+              >
+                Save & Next
+              </button>
+            </div>
           </div>
         </div>
+
+        {/* A question opened from search is practised on its own, without the exam palette */}
+        {!singleQuestionId && (
+          <QuestionPalette
+            total={questions.length}
+            current={currentQuestion}
+            state={{ visited, marked, answers }}
+            onSelect={goTo}
+          />
+        )}
       </div>
+
+      {showSubmitSummary && (
+        <SubmitSummary
+          total={questions.length}
+          state={{ visited, marked, answers }}
+          onConfirm={handleSubmit}
+          onCancel={() => setShowSubmitSummary(false)}
+        />
+      )}
+
+      {showShortcuts && <ShortcutsHelp onClose={() => setShowShortcuts(false)} />}
     </div>
   );
 }
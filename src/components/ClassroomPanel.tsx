@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { School } from 'lucide-react';
+import { Assignment, flushPendingSubmissions, listAssignments } from '../lib/classroom';
+import { Settings } from '../lib/settings';
+
+const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm';
+
+// Student side of classroom mode: joining a server and starting assignments for a batch
+const ClassroomPanel = ({
+  settings,
+  onChangeSettings,
+  onStartAssignment,
+  onOpenDashboard,
+}: {
+  settings: Settings;
+  onChangeSettings: (changes: Partial<Settings>) => void;
+  onStartAssignment: (assignment: Assignment) => void;
+  onOpenDashboard: () => void;
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [form, setForm] = useState({ classroomUrl: settings.classroomUrl, studentName: settings.studentName, batch: settings.batch });
+  const [assignments, setAssignments] = useState<Assignment[] | null>(null);
+  const [pending, setPending] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const joined = settings.classroomUrl !== '' && settings.studentName !== '';
+
+  useEffect(() => {
+    if (!joined) return;
+    let cancelled = false;
+    setError(null);
+    flushPendingSubmissions().then((count) => !cancelled && setPending(count));
+    listAssignments(settings.classroomUrl, settings.batch)
+      .then((list) => !cancelled && setAssignments([...list].reverse()))
+      .catch((e: Error) => !cancelled && setError(e.message));
+    return () => {
+      cancelled = true;
+    };
+  }, [joined, settings.classroomUrl, settings.batch]);
+
+  if (!joined || editing) {
+    if (!editing) {
+      return (
+        <div className="flex justify-center gap-4 text-sm">
+          <button onClick={() => setEditing(true)} className="flex items-center gap-2 text-gray-500 hover:text-gray-700">
+            <School className="w-4 h-4" />
+            Join a classroom
+          </button>
+          <button onClick={onOpenDashboard} className="text-gray-500 hover:text-gray-700">
+            Teacher dashboard
+          </button>
+        </div>
+      );
+    }
+    return (
+      <div className="space-y-3">
+        <h2 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <School className="w-4 h-4" />
+          Classroom
+        </h2>
+        <input
+          value={form.classroomUrl}
+          onChange={(e) => setForm({ ...form, classroomUrl: e.target.value.trim() })}
+          placeholder="Server address, e.g. http://192.168.1.10:8787"
+          className={inputClassName}
+        />
+        <div className="flex gap-2">
+          <input value={form.studentName} onChange={(e) => setForm({ ...form, studentName: e.target.value })} placeholder="Your name" className={inputClassName} />
+          <input value={form.batch} onChange={(e) => setForm({ ...form, batch: e.target.value })} placeholder="Batch" className={inputClassName} />
+        </div>
+        <div className="flex justify-end gap-3 text-sm">
+          <button onClick={() => setEditing(false)} className="text-gray-600 hover:text-gray-800">
+            Cancel
+          </button>
+          {joined && (
+            <button
+              onClick={() => {
+                onChangeSettings({ classroomUrl: '', studentName: '', batch: '' });
+                setEditing(false);
+              }}
+              className="text-red-600 hover:text-red-800"
+            >
+              Leave
+            </button>
+          )}
+          <button
+            onClick={() => {
+              onChangeSettings({ ...form, studentName: form.studentName.trim(), batch: form.batch.trim() });
+              setEditing(false);
+            }}
+            disabled={!form.classroomUrl || !form.studentName.trim()}
+            className="px-4 py-1 rounded-md bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-sm font-medium text-gray-700 flex items-center gap-2">
+          <School className="w-4 h-4" />
+          Classroom{settings.batch && ` · ${settings.batch}`}
+        </h2>
+        <div className="flex gap-3 text-xs">
+          <button onClick={onOpenDashboard} className="text-indigo-600 hover:text-indigo-800">
+            Teacher dashboard
+          </button>
+          <button onClick={() => setEditing(true)} className="text-gray-500 hover:text-gray-700">
+            Change
+          </button>
+        </div>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {pending > 0 && <p className="text-xs text-amber-700 mb-2">{pending} result{pending === 1 ? '' : 's'} waiting to be sent</p>}
+      {!error && assignments === null && <p className="text-sm text-gray-500">Loading assignments…</p>}
+      {assignments?.length === 0 && <p className="text-sm text-gray-500">No assignments for your batch yet.</p>}
+      <ul className="divide-y divide-gray-200">
+        {assignments?.map((assignment) => (
+          <li key={assignment.id} className="py-2 flex justify-between items-center text-sm">
+            <span className="text-gray-700">
+              {assignment.title}
+              <span className="text-gray-400 ml-2">{assignment.questionIds.length} questions</span>
+            </span>
+            <button onClick={() => onStartAssignment(assignment)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+              Start
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ClassroomPanel;
@@ -0,0 +1,220 @@
+import { ChangeEvent, useRef, useState } from 'react';
+import { Download, History, Trash2, Upload } from 'lucide-react';
+import { Attempt, clearAttempts, loadAttempts, saveAttempts, subjectTrend, summarizeBy, topicKey } from '../lib/history';
+import { attemptsToCsv, attemptsToJson, mergeAttempts, parseAttemptsFile } from '../lib/attemptExport';
+import { downloadFile } from '../lib/download';
+import { INITIAL_RATING, calibrate } from '../lib/difficulty';
+import { recordAttemptReviews } from '../lib/review';
+import { SUBJECTS, getSubjectName } from '../lib/subjects';
+import TopicBreakdown from './TopicBreakdown';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const attemptLabel = (attempt: Attempt) =>
+  SUBJECTS.some((s) => s.id === attempt.label) ? getSubjectName(attempt.label) : attempt.label;
+
+const exportAttempts = (attempts: Attempt[], format: 'csv' | 'json', name: string) =>
+  format === 'csv'
+    ? downloadFile(`${name}.csv`, attemptsToCsv(attempts), 'text/csv')
+    : downloadFile(`${name}.json`, attemptsToJson(attempts));
+
+const HistoryView = ({ onBack }: { onBack: () => void }) => {
+  const [attempts, setAttempts] = useState<Attempt[]>(() => loadAttempts());
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const byType = summarizeBy(attempts, (q) => q.type);
+  const byTopic = summarizeBy(attempts, topicKey);
+  const { ability } = calibrate(attempts);
+
+  const handleClear = () => {
+    if (!window.confirm('Delete all saved attempts?')) return;
+    clearAttempts();
+    setAttempts([]);
+  };
+
+  // Merges into the current history, which restores it on a device that has none
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parseAttemptsFile(file.name, await file.text());
+      const merged = mergeAttempts(loadAttempts(), imported);
+      // Before saving, so a first-run queue is seeded from the old history and each import is counted once
+      merged.added.forEach(recordAttemptReviews);
+      saveAttempts(merged.attempts);
+      setAttempts(merged.attempts);
+      const skipped = imported.length - merged.added.length;
+      setImportStatus(
+        `Imported ${merged.added.length} attempts from ${file.name}` +
+          (skipped > 0 ? `; ${skipped} were already in your history` : '')
+      );
+    } catch (error) {
+      console.error('Could not import attempts:', error);
+      setImportStatus(`Could not import ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const exportName = `jee-attempts-${new Date().toISOString().slice(0, 10)}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg p-8 max-w-2xl w-full">
+        <div className="mb-8 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <History className="w-6 h-6 text-indigo-600" />
+            Progress
+          </h2>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-800"
+              title="Restore or merge attempts exported as CSV or JSON"
+            >
+              <Upload className="w-4 h-4" />
+              Import
+            </button>
+            <input ref={fileInputRef} type="file" accept=".csv,.json" onChange={handleImport} className="hidden" />
+            {attempts.length > 0 && (
+              <>
+                <button
+                  onClick={() => exportAttempts(attempts, 'csv', exportName)}
+                  className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-800"
+                  title="One row per question, for spreadsheets"
+                >
+                  <Download className="w-4 h-4" />
+                  CSV
+                </button>
+                <button
+                  onClick={() => exportAttempts(attempts, 'json', exportName)}
+                  className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-800"
+                  title="Full attempt history, for importing on another device"
+                >
+                  <Download className="w-4 h-4" />
+                  JSON
+                </button>
+                <button
+                  onClick={handleClear}
+                  className="flex items-center gap-1 text-sm text-red-600 hover:text-red-800"
+                >
+                  <Trash2 className="w-4 h-4" />
+                  Clear
+                </button>
+              </>
+            )}
+            <button onClick={onBack} className="text-gray-600 hover:text-gray-800">
+              Back
+            </button>
+          </div>
+        </div>
+
+        {importStatus && (
+          <p role="status" className="text-sm text-indigo-700 mb-6">
+            {importStatus}
+          </p>
+        )}
+
+        {attempts.length === 0 ? (
+          <p className="text-gray-600 text-center">No completed attempts yet. Finish a quiz to start tracking progress.</p>
+        ) : (
+          <div className="space-y-8">
+            <section>
+              <h3 className="font-medium text-gray-900 mb-1">Estimated ability: {Math.round(ability.rating)}</h3>
+              <p className="text-sm text-gray-500">
+                From your {ability.count} answers on this device, starting at {INITIAL_RATING}. Question ratings
+                come from your own answers too, so they show what is easy or hard for you rather than for students in general.
+              </p>
+            </section>
+
+            <section>
+              <h3 className="font-medium text-gray-900 mb-3">Score trend by subject</h3>
+              <div className="space-y-4">
+                {SUBJECTS.map((subject) => {
+                  const trend = subjectTrend(attempts, subject.id).slice(-12);
+                  if (trend.length === 0) return null;
+                  return (
+                    <div key={subject.id}>
+                      <div className="flex justify-between text-sm text-gray-600 mb-1">
+                        <span>{subject.name}</span>
+                        <span>Latest: {trend[trend.length - 1].percentage.toFixed(1)}%</span>
+                      </div>
+                      <div className="flex items-end gap-1 h-16 bg-gray-50 rounded p-1">
+                        {trend.map((point) => (
+                          <div
+                            key={point.completedAt}
+                            title={`${formatDate(point.completedAt)}: ${point.percentage.toFixed(1)}%`}
+                            className={`flex-1 rounded-sm ${subject.color}`}
+                            style={{ height: `${Math.max(point.percentage, 2)}%` }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+
+            <section>
+              <h3 className="font-medium text-gray-900 mb-3">Accuracy by question type</h3>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <th className="py-2">Type</th>
+                    <th className="py-2">Attempted</th>
+                    <th className="py-2">Accuracy</th>
+                    <th className="py-2">Avg. time</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 text-gray-700">
+                  {byType.map((row) => (
+                    <tr key={row.key}>
+                      <td className="py-2">{row.key}</td>
+                      <td className="py-2">{row.attempted}</td>
+                      <td className="py-2">{row.accuracy.toFixed(1)}%</td>
+                      <td className="py-2">{row.averageTime.toFixed(1)}s</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+
+            <section>
+              <h3 className="font-medium text-gray-900 mb-3">Accuracy by topic</h3>
+              <TopicBreakdown summaries={byTopic} />
+            </section>
+
+            <section>
+              <h3 className="font-medium text-gray-900 mb-3">Attempts</h3>
+              <ul className="divide-y divide-gray-200">
+                {[...attempts].reverse().map((attempt) => (
+                  <li key={attempt.id} className="py-2 flex justify-between text-sm">
+                    <span className="text-gray-700">
+                      {attemptLabel(attempt)}
+                      <span className="text-gray-400 ml-2">{formatDate(attempt.completedAt)}</span>
+                    </span>
+                    <span className="flex items-center gap-3">
+                      <span className="font-medium text-gray-900">
+                        {attempt.marks} / {attempt.maxMarks}
+                      </span>
+                      <button
+                        onClick={() => exportAttempts([attempt], 'csv', `jee-attempt-${attempt.id}`)}
+                        className="text-gray-400 hover:text-gray-700"
+                        title="Export this attempt as CSV"
+                        aria-label={`Export ${attemptLabel(attempt)} as CSV`}
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryView;
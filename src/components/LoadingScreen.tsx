@@ -0,0 +1,35 @@
+import { AlertTriangle, Loader2 } from 'lucide-react';
+
+// Shown while question bank chunks load, or when one could not be fetched
+const LoadingScreen = ({ error, onRetry, onBack }: { error?: boolean; onRetry?: () => void; onBack?: () => void }) => (
+  <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+    <div className="bg-white p-8 rounded-lg shadow-lg w-full max-w-sm mx-4 text-center" role={error ? 'alert' : 'status'}>
+      {error ? (
+        <>
+          <AlertTriangle className="w-10 h-10 mx-auto text-amber-500 mb-3" />
+          <p className="text-gray-800 font-medium">Could not load the questions</p>
+          <p className="text-sm text-gray-500 mt-1">Check your connection and try again.</p>
+          <div className="mt-6 flex justify-center gap-4">
+            {onBack && (
+              <button onClick={onBack} className="text-gray-600 hover:text-gray-800">
+                Back
+              </button>
+            )}
+            {onRetry && (
+              <button onClick={onRetry} className="px-4 py-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">
+                Retry
+              </button>
+            )}
+          </div>
+        </>
+      ) : (
+        <>
+          <Loader2 className="w-10 h-10 mx-auto text-indigo-600 mb-3 animate-spin" />
+          <p className="text-gray-600">Loading questions…</p>
+        </>
+      )}
+    </div>
+  </div>
+);
+
+export default LoadingScreen;
@@ -0,0 +1,202 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { DEFAULT_SESSION_SIZE, PracticeFilters, filterQuestions, getBankFacets } from '../lib/practice';
+import { SUBJECTS } from '../lib/subjects';
+import { getTopics } from '../lib/topics';
+import { QUESTION_TYPES } from '../lib/validation';
+import { Question } from '../types/question';
+
+const toggle = <T,>(values: T[], value: T): T[] =>
+  values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+
+const Chip = ({ active, onClick, children }: { active: boolean; onClick: () => void; children: ReactNode }) => (
+  <button
+    onClick={onClick}
+    className={`px-3 py-1 rounded-full text-sm border transition-colors ${active
+      ? 'bg-indigo-600 border-indigo-600 text-white'
+      : 'bg-white border-gray-300 text-gray-700 hover:border-indigo-300'
+      }`}
+  >
+    {children}
+  </button>
+);
+
+const PracticeBuilder = ({
+  questions,
+  onStart,
+  onBack,
+}: {
+  questions: Question[];
+  onStart: (filters: PracticeFilters, adaptive: boolean) => void;
+  onBack: () => void;
+}) => {
+  const facets = useMemo(() => getBankFacets(questions), [questions]);
+  const [filters, setFilters] = useState<PracticeFilters>({
+    subjects: SUBJECTS.map((s) => s.id),
+    yearFrom: facets.years[0],
+    yearTo: facets.years[facets.years.length - 1],
+    papers: facets.papers,
+    types: QUESTION_TYPES,
+    topics: [],
+    count: DEFAULT_SESSION_SIZE,
+  });
+  const [adaptive, setAdaptive] = useState(false);
+
+  const available = useMemo(() => filterQuestions(questions, filters).length, [questions, filters]);
+  const count = Math.min(filters.count, available);
+  const update = (changes: Partial<PracticeFilters>) => setFilters((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex items-center justify-center p-4">
+      <div className="bg-white p-6 sm:p-8 rounded-lg shadow-lg w-full max-w-lg mx-4">
+        <div className="mb-6 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <SlidersHorizontal className="w-5 h-5 text-indigo-600" />
+            Custom practice set
+          </h2>
+          <button onClick={onBack} className="text-gray-600 hover:text-gray-800">
+            Back
+          </button>
+        </div>
+
+        <div className="space-y-5">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Subjects</p>
+            <div className="flex flex-wrap gap-2">
+              {SUBJECTS.map((subject) => (
+                <Chip
+                  key={subject.id}
+                  active={filters.subjects.includes(subject.id)}
+                  onClick={() => {
+                    const subjects = toggle(filters.subjects, subject.id);
+                    const topics = (filters.topics ?? []).filter((topic) =>
+                      subjects.some((id) => getTopics(id).some((t) => t.id === topic))
+                    );
+                    update({ subjects, topics });
+                  }}
+                >
+                  {subject.name}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              Topics <span className="font-normal text-gray-500">({filters.topics?.length ? 'selected only' : 'all'})</span>
+            </p>
+            <div className="flex flex-wrap gap-2 max-h-40 overflow-y-auto">
+              {filters.subjects.flatMap((subject) => getTopics(subject)).map((topic) => (
+                <Chip
+                  key={topic.id}
+                  active={filters.topics?.includes(topic.id) ?? false}
+                  onClick={() => update({ topics: toggle(filters.topics ?? [], topic.id) })}
+                >
+                  {topic.name}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Years</p>
+            <div className="flex items-center gap-2">
+              <select
+                value={filters.yearFrom}
+                onChange={(e) => update({ yearFrom: parseInt(e.target.value) })}
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+              >
+                {facets.years.map((year) => (
+                  <option key={year} value={year}>{year}</option>
+                ))}
+              </select>
+              <span className="text-gray-500 text-sm">to</span>
+              <select
+                value={filters.yearTo}
+                onChange={(e) => update({ yearTo: parseInt(e.target.value) })}
+                className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm"
+              >
+                {facets.years.map((year) => (
+                  <option key={year} value={year}>{year}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Papers</p>
+            <div className="flex flex-wrap gap-2">
+              {facets.papers.map((paper) => (
+                <Chip
+                  key={paper}
+                  active={filters.papers.includes(paper)}
+                  onClick={() => update({ papers: toggle(filters.papers, paper) })}
+                >
+                  Paper {paper}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Question types</p>
+            <div className="flex flex-wrap gap-2">
+              {QUESTION_TYPES.map((type) => (
+                <Chip
+                  key={type}
+                  active={filters.types.includes(type)}
+                  onClick={() => update({ types: toggle(filters.types, type) })}
+                >
+                  {type}
+                </Chip>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="questionCount" className="text-sm font-medium text-gray-700 mb-2 flex justify-between">
+              <span>Number of questions</span>
+              <span className="text-gray-500">{count} of {available} available</span>
+            </label>
+            <input
+              id="questionCount"
+              type="range"
+              min={1}
+              max={Math.max(available, 1)}
+              value={count}
+              disabled={available === 0}
+              onChange={(e) => update({ count: parseInt(e.target.value) })}
+              className="w-full accent-indigo-600"
+            />
+          </div>
+
+          <label className="flex items-start gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={adaptive}
+              onChange={(e) => setAdaptive(e.target.checked)}
+              className="mt-0.5 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            <span>
+              Adaptive
+              <span className="block text-gray-500">Pick each next question near your current level, based on your history</span>
+            </span>
+          </label>
+        </div>
+
+        <button
+          onClick={() => onStart({ ...filters, count }, adaptive)}
+          disabled={available === 0}
+          className={`mt-8 w-full px-6 py-3 rounded-lg font-semibold transition-all ${available > 0
+            ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+            : 'bg-gray-200 text-gray-400 cursor-not-allowed'
+            }`}
+        >
+          Start practice
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PracticeBuilder;
@@ -0,0 +1,30 @@
+import { ReactNode, useEffect, useState } from 'react';
+import { loadQuestions } from '../lib/questionBank';
+import { Question } from '../types/question';
+import LoadingScreen from './LoadingScreen';
+
+// Loads the whole question bank for screens that browse or filter all of it
+const QuestionBankGate = ({ onBack, children }: { onBack: () => void; children: (questions: Question[]) => ReactNode }) => {
+  const [questions, setQuestions] = useState<Question[] | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFailed(false);
+    loadQuestions()
+      .then((loaded) => !cancelled && setQuestions(loaded))
+      .catch((error: unknown) => {
+        console.error('Could not load the question bank:', error);
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [attempt]);
+
+  if (!questions) return <LoadingScreen error={failed} onRetry={() => setAttempt(attempt + 1)} onBack={onBack} />;
+  return <>{children(questions)}</>;
+};
+
+export default QuestionBankGate;
@@ -0,0 +1,347 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { Download, FilePlus2, PenLine, Trash2 } from 'lucide-react';
+import {
+  AuthoredEntry,
+  QuestionDraft,
+  authoredId,
+  draftFromQuestion,
+  emptyDraft,
+  loadAuthoredEntries,
+  mergeEntries,
+  saveAuthoredEntries,
+  toAuthoredEntry,
+  validateDraft,
+} from '../lib/authoring';
+import { downloadFile } from '../lib/download';
+import { DEFAULT_GRADING_OPTIONS, GradingOptions } from '../lib/grading';
+import { parseOptions } from '../lib/options';
+import { getPaperQuestions, listPapers } from '../lib/papers';
+import { getQuestionById } from '../lib/questionBank';
+import { renderMath } from '../lib/renderMath';
+import { SUBJECTS } from '../lib/subjects';
+import { getTopics } from '../lib/topics';
+import { QUESTION_TYPES, questionId } from '../lib/validation';
+import { Question, QuestionType, SubjectId } from '../types/question';
+
+const GOLD_PLACEHOLDERS: Record<QuestionType, string> = {
+  MCQ: 'One letter, e.g. B',
+  'MCQ(multiple)': 'Letters, e.g. ACD',
+  Integer: 'e.g. 4',
+  Numeric: 'e.g. 2.35',
+};
+
+// Per-question overrides of how Numeric answers are compared with the gold
+const GRADING_FIELDS: { field: keyof GradingOptions; label: string }[] = [
+  { field: 'decimals', label: 'Decimal places' },
+  { field: 'tolerance', label: 'Absolute tolerance' },
+  { field: 'relativeTolerance', label: 'Relative tolerance' },
+];
+
+const inputClassName = 'w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm';
+
+const Field = ({ label, children }: { label: string; children: ReactNode }) => (
+  <label className="block">
+    <span className="block text-sm font-medium text-gray-700 mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+// A LaTeX source box with the rendered result next to it
+const SourceWithPreview = ({
+  label,
+  value,
+  rows,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  rows: number;
+  onChange: (value: string) => void;
+}) => (
+  <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+    <Field label={label}>
+      <textarea
+        value={value}
+        rows={rows}
+        onChange={(e) => onChange(e.target.value)}
+        spellCheck={false}
+        className={`${inputClassName} font-mono`}
+      />
+    </Field>
+    <div>
+      <span className="block text-sm font-medium text-gray-700 mb-1">Preview</span>
+      <div className="min-h-[3rem] p-3 rounded-md border bg-gray-50 text-gray-800 overflow-x-auto">
+        {value.trim() ? renderMath(value) : <span className="text-sm text-gray-400">Nothing to preview</span>}
+      </div>
+    </div>
+  </div>
+);
+
+const QuestionEditor = ({ questions, onBack }: { questions: Question[]; onBack: () => void }) => {
+  const papers = useMemo(() => listPapers(questions), [questions]);
+  const [paper, setPaper] = useState(papers[0] ?? '');
+  const [sourceId, setSourceId] = useState('');
+  const [draft, setDraft] = useState<QuestionDraft>(() => emptyDraft());
+  // The bank question this draft edits, and its position in the authored list once saved
+  const [replaces, setReplaces] = useState<string | null>(null);
+  const [authoredIndex, setAuthoredIndex] = useState<number | null>(null);
+  const [authored, setAuthored] = useState<AuthoredEntry[]>(loadAuthoredEntries);
+
+  const paperQuestions = useMemo(() => getPaperQuestions(questions, paper), [questions, paper]);
+
+  const existingIds = useMemo(() => {
+    const ids = new Set(questions.map(questionId));
+    authored.forEach((a, i) => i !== authoredIndex && ids.add(authoredId(a)));
+    return ids;
+  }, [questions, authored, authoredIndex]);
+
+  const errors = validateDraft(draft, existingIds, replaces);
+  const isChoice = draft.type === 'MCQ' || draft.type === 'MCQ(multiple)';
+  const optionsFound = isChoice && draft.question.trim() !== '' && parseOptions(draft.question) !== null;
+
+  const update = (changes: Partial<QuestionDraft>) => setDraft((prev) => ({ ...prev, ...changes }));
+
+  const updateAuthored = (next: AuthoredEntry[]) => {
+    setAuthored(next);
+    saveAuthoredEntries(next);
+  };
+
+  const startNew = () => {
+    setDraft(emptyDraft(draft));
+    setReplaces(null);
+    setAuthoredIndex(null);
+  };
+
+  const loadFromBank = () => {
+    const question = getQuestionById(sourceId);
+    if (!question) return;
+    const existing = authored.findIndex((a) => a.replaces === sourceId);
+    setDraft(existing === -1 ? draftFromQuestion(question) : draftFromQuestion(authored[existing].entry));
+    setReplaces(sourceId);
+    setAuthoredIndex(existing === -1 ? null : existing);
+  };
+
+  const loadFromAuthored = (index: number) => {
+    setDraft(draftFromQuestion(authored[index].entry));
+    setReplaces(authored[index].replaces);
+    setAuthoredIndex(index);
+  };
+
+  const handleSave = () => {
+    const entry = toAuthoredEntry(draft, replaces);
+    if (authoredIndex === null) {
+      updateAuthored([...authored, entry]);
+    } else {
+      updateAuthored(authored.map((a, i) => (i === authoredIndex ? entry : a)));
+    }
+    startNew();
+  };
+
+  const handleRemove = (index: number) => {
+    updateAuthored(authored.filter((_, i) => i !== index));
+    if (authoredIndex === index) startNew();
+    else if (authoredIndex !== null && authoredIndex > index) setAuthoredIndex(authoredIndex - 1);
+  };
+
+  const downloadEntries = () =>
+    downloadFile('new-questions.json', JSON.stringify({ questions: authored.map((a) => a.entry) }, null, 2));
+
+  // Rebuilt from the loaded chunks, which keep quiz.json order; entries that fail validation are left out,
+  // and validate:quiz keeps the bank free of them
+  const downloadMerged = () =>
+    downloadFile('quiz.json', JSON.stringify({ questions: mergeEntries(questions, authored) }, null, 2));
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex justify-center p-4">
+      <div className="bg-white p-6 sm:p-8 rounded-lg shadow-lg w-full max-w-5xl mx-4 self-start">
+        <div className="mb-6 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <PenLine className="w-5 h-5 text-indigo-600" />
+            Question editor
+          </h2>
+          <button onClick={onBack} className="text-gray-600 hover:text-gray-800">
+            Back
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2 mb-6 pb-6 border-b border-gray-200">
+          <Field label="Edit an existing question">
+            <select value={paper} onChange={(e) => { setPaper(e.target.value); setSourceId(''); }} className={inputClassName}>
+              {papers.map((description) => (
+                <option key={description} value={description}>{description}</option>
+              ))}
+            </select>
+          </Field>
+          <select value={sourceId} onChange={(e) => setSourceId(e.target.value)} className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm">
+            <option value="">Question…</option>
+            {paperQuestions.map((q) => (
+              <option key={questionId(q)} value={questionId(q)}>Q{q.index} ({q.subject}, {q.type})</option>
+            ))}
+          </select>
+          <button
+            onClick={loadFromBank}
+            disabled={!sourceId}
+            className="px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Load
+          </button>
+          <button
+            onClick={startNew}
+            className="ml-auto flex items-center gap-1 px-4 py-2 rounded-lg border border-indigo-200 text-sm text-indigo-700 hover:bg-indigo-50"
+          >
+            <FilePlus2 className="w-4 h-4" />
+            New question
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-500 mb-4">
+          {replaces ? `Editing ${replaces}` : 'New question'}
+        </p>
+
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+            <div className="col-span-2">
+              <Field label="Description">
+                <input
+                  value={draft.description}
+                  onChange={(e) => update({ description: e.target.value })}
+                  list="editor-papers"
+                  placeholder="JEE Adv 2023 Paper 1"
+                  className={inputClassName}
+                />
+                <datalist id="editor-papers">
+                  {papers.map((description) => <option key={description} value={description} />)}
+                </datalist>
+              </Field>
+            </div>
+            <Field label="Index">
+              <input type="number" min={1} value={draft.index} onChange={(e) => update({ index: e.target.value })} className={inputClassName} />
+            </Field>
+            <Field label="Subject">
+              <select
+                value={draft.subject}
+                onChange={(e) => update({ subject: e.target.value as SubjectId, topic: '' })}
+                className={inputClassName}
+              >
+                {SUBJECTS.map((subject) => (
+                  <option key={subject.id} value={subject.id}>{subject.name}</option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Topic">
+              <select value={draft.topic} onChange={(e) => update({ topic: e.target.value })} className={inputClassName}>
+                <option value="">Untagged</option>
+                {getTopics(draft.subject).map((topic) => (
+                  <option key={topic.id} value={topic.id}>{topic.name}</option>
+                ))}
+              </select>
+            </Field>
+            <Field label="Type">
+              <select value={draft.type} onChange={(e) => update({ type: e.target.value as QuestionType })} className={inputClassName}>
+                {QUESTION_TYPES.map((type) => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </Field>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <Field label="Correct answer (gold)">
+              <input
+                value={draft.gold}
+                onChange={(e) => update({ gold: e.target.value })}
+                placeholder={GOLD_PLACEHOLDERS[draft.type]}
+                className={inputClassName}
+              />
+            </Field>
+            {draft.type === 'Numeric' &&
+              GRADING_FIELDS.map(({ field, label }) => (
+                <Field key={field} label={label}>
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={draft[field]}
+                    onChange={(e) => update({ [field]: e.target.value })}
+                    placeholder={`${DEFAULT_GRADING_OPTIONS[field]} (default)`}
+                    className={inputClassName}
+                  />
+                </Field>
+              ))}
+          </div>
+
+          <SourceWithPreview label="Question" value={draft.question} rows={12} onChange={(question) => update({ question })} />
+          {isChoice && draft.question.trim() !== '' && !optionsFound && (
+            <p className="text-sm text-amber-700">
+              Options (A)–(D) could not be split from the question; put each on its own line at the end so they render inside the answer buttons.
+            </p>
+          )}
+          <SourceWithPreview label="Hint (optional)" value={draft.hint} rows={3} onChange={(hint) => update({ hint })} />
+          <SourceWithPreview label="Solution (optional)" value={draft.solution} rows={6} onChange={(solution) => update({ solution })} />
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-5">
+              {errors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <button
+            onClick={handleSave}
+            disabled={errors.length > 0}
+            className={`px-6 py-2 rounded-lg text-white transition-colors ${errors.length > 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-indigo-600 hover:bg-indigo-700'}`}
+          >
+            {authoredIndex === null ? 'Add to batch' : 'Update in batch'}
+          </button>
+        </div>
+
+        <div className="mt-8 pt-6 border-t border-gray-200">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-3">
+            <h3 className="font-medium text-gray-900">Batch ({authored.length})</h3>
+            <div className="flex gap-2">
+              <button
+                onClick={downloadEntries}
+                disabled={authored.length === 0}
+                className="flex items-center gap-1 px-4 py-2 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                title="Only the questions in this batch"
+              >
+                <Download className="w-4 h-4" />
+                Entries only
+              </button>
+              <button
+                onClick={downloadMerged}
+                disabled={authored.length === 0}
+                className="flex items-center gap-1 px-4 py-2 rounded-lg bg-gray-800 text-sm text-white hover:bg-gray-900 disabled:opacity-50"
+                title="The full question bank with this batch merged in"
+              >
+                <Download className="w-4 h-4" />
+                Merged quiz.json
+              </button>
+            </div>
+          </div>
+          {authored.length === 0 ? (
+            <p className="text-sm text-gray-500">Saved questions collect here until you download them.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {authored.map((a, index) => (
+                <li key={index} className={`py-2 flex justify-between items-center text-sm ${index === authoredIndex ? 'bg-indigo-50' : ''}`}>
+                  <span className="text-gray-700">
+                    {authoredId(a)}
+                    <span className="text-gray-400 ml-2">{a.replaces ? `edits ${a.replaces}` : 'new'}</span>
+                  </span>
+                  <span className="flex gap-3">
+                    <button onClick={() => loadFromAuthored(index)} className="text-indigo-600 hover:text-indigo-800">Edit</button>
+                    <button onClick={() => handleRemove(index)} className="text-red-600 hover:text-red-800" title="Remove from batch">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,69 @@
+import { ReactNode } from 'react';
+import { Check, Minus } from 'lucide-react';
+import { PALETTE_LABELS, PALETTE_STATUSES, PaletteState, PaletteStatus, countByStatus, getPaletteStatus } from '../lib/examStatus';
+
+// Official CBT colours: grey, red, green, purple, and purple with a green tick
+const paletteClasses: Record<PaletteStatus, string> = {
+  notVisited: 'bg-gray-100 text-gray-700 border-gray-300',
+  notAnswered: 'bg-red-500 text-white border-red-600',
+  answered: 'bg-green-500 text-white border-green-600',
+  marked: 'bg-purple-600 text-white border-purple-700 rounded-full',
+  answeredMarked: 'bg-purple-600 text-white border-purple-700 rounded-full',
+};
+
+// Shape and corner glyph tell the statuses apart without relying on colour:
+// a tick for answered, a dash for not answered, a circle for marked for review
+export const PaletteBadge = ({ status, children }: { status: PaletteStatus; children: ReactNode }) => (
+  <span className={`relative inline-flex items-center justify-center w-9 h-9 text-sm font-medium border rounded-md ${paletteClasses[status]}`}>
+    {children}
+    {(status === 'answered' || status === 'answeredMarked') && (
+      <Check aria-hidden="true" className="absolute -bottom-1 -right-1 w-4 h-4 p-0.5 bg-green-500 text-white rounded-full" />
+    )}
+    {status === 'notAnswered' && (
+      <Minus aria-hidden="true" className="absolute -bottom-1 -right-1 w-4 h-4 p-0.5 bg-red-500 text-white rounded-full" />
+    )}
+  </span>
+);
+
+const QuestionPalette = ({
+  total,
+  current,
+  state,
+  onSelect,
+}: {
+  total: number;
+  current: number;
+  state: PaletteState;
+  onSelect: (index: number) => void;
+}) => {
+  const counts = countByStatus(total, state);
+
+  return (
+    <aside className="bg-white rounded-xl shadow-lg p-4 w-full lg:w-72" aria-label="Question palette">
+      <div className="grid grid-cols-2 gap-2 mb-4 text-xs text-gray-600">
+        {PALETTE_STATUSES.map((status) => (
+          <div key={status} className={`flex items-center gap-2 ${status === 'answeredMarked' ? 'col-span-2' : ''}`}>
+            <PaletteBadge status={status}>{counts[status]}</PaletteBadge>
+            <span>{PALETTE_LABELS[status]}</span>
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-6 gap-2 max-h-[50vh] overflow-y-auto p-1">
+        {Array.from({ length: total }, (_, index) => (
+          <button
+            key={index}
+            onClick={() => onSelect(index)}
+            className={`rounded-md ${index === current ? 'ring-2 ring-indigo-500 ring-offset-1' : ''}`}
+            title={PALETTE_LABELS[getPaletteStatus(index, state)]}
+            aria-label={`Question ${index + 1}, ${PALETTE_LABELS[getPaletteStatus(index, state)]}`}
+            aria-current={index === current ? 'step' : undefined}
+          >
+            <PaletteBadge status={getPaletteStatus(index, state)}>{index + 1}</PaletteBadge>
+          </button>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default QuestionPalette;
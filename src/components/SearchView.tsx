@@ -0,0 +1,117 @@
+import { useDeferredValue, useMemo, useState } from 'react';
+import { Search } from 'lucide-react';
+import { listPapers } from '../lib/papers';
+import { SearchFilters, buildSearchIndex, searchQuestions } from '../lib/search';
+import { SUBJECTS, getSubjectName } from '../lib/subjects';
+import { QUESTION_TYPES, questionId } from '../lib/validation';
+import { Question, QuestionType, SubjectId } from '../types/question';
+
+const RESULT_LIMIT = 50;
+
+const selectClassName = 'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm';
+
+const SearchView = ({
+  questions,
+  onOpen,
+  onBack,
+}: {
+  questions: Question[];
+  onOpen: (question: Question) => void;
+  onBack: () => void;
+}) => {
+  const index = useMemo(() => buildSearchIndex(questions), [questions]);
+  const papers = useMemo(() => listPapers(questions), [questions]);
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const deferredQuery = useDeferredValue(query);
+
+  const results = useMemo(() => searchQuestions(index, deferredQuery, filters), [index, deferredQuery, filters]);
+  const update = (changes: Partial<SearchFilters>) => setFilters((prev) => ({ ...prev, ...changes }));
+
+  return (
+    <div className="min-h-screen bg-gray-100 flex justify-center p-4">
+      <div className="bg-white p-6 sm:p-8 rounded-lg shadow-lg w-full max-w-2xl mx-4 self-start">
+        <div className="mb-6 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center gap-2">
+            <Search className="w-5 h-5 text-indigo-600" />
+            Search questions
+          </h2>
+          <button onClick={onBack} className="text-gray-600 hover:text-gray-800">
+            Back
+          </button>
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          autoFocus
+          placeholder='A phrase or formula, e.g. "angular momentum" or \vec{\tau}'
+          className="w-full p-3 rounded-lg border border-gray-200 focus:border-indigo-600 focus:ring-2 focus:ring-indigo-200 outline-none"
+        />
+
+        <div className="flex flex-wrap gap-2 mt-3">
+          <select
+            value={filters.subject ?? ''}
+            onChange={(e) => update({ subject: (e.target.value || undefined) as SubjectId | undefined })}
+            className={selectClassName}
+          >
+            <option value="">All subjects</option>
+            {SUBJECTS.map((subject) => (
+              <option key={subject.id} value={subject.id}>{subject.name}</option>
+            ))}
+          </select>
+          <select
+            value={filters.type ?? ''}
+            onChange={(e) => update({ type: (e.target.value || undefined) as QuestionType | undefined })}
+            className={selectClassName}
+          >
+            <option value="">All types</option>
+            {QUESTION_TYPES.map((type) => (
+              <option key={type} value={type}>{type}</option>
+            ))}
+          </select>
+          <select
+            value={filters.paper ?? ''}
+            onChange={(e) => update({ paper: e.target.value || undefined })}
+            className={selectClassName}
+          >
+            <option value="">All papers</option>
+            {papers.map((paper) => (
+              <option key={paper} value={paper}>{paper}</option>
+            ))}
+          </select>
+        </div>
+
+        <p className="text-sm text-gray-500 mt-4 mb-2">
+          {results.length === 0
+            ? 'No matching questions'
+            : `${results.length} matching question${results.length === 1 ? '' : 's'}${results.length > RESULT_LIMIT ? `, showing the first ${RESULT_LIMIT}` : ''}`}
+        </p>
+
+        <ul className="divide-y divide-gray-200">
+          {results.slice(0, RESULT_LIMIT).map(({ question, snippet }) => (
+            <li key={questionId(question)}>
+              <button
+                onClick={() => onOpen(question)}
+                className="w-full text-left py-3 px-2 rounded hover:bg-indigo-50 transition-colors"
+              >
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span>{question.description}, Q{question.index}</span>
+                  <span>{getSubjectName(question.subject)} · {question.type}</span>
+                </div>
+                <p className="text-sm text-gray-800">
+                  {snippet.map((part, i) =>
+                    part.match ? <mark key={i} className="bg-yellow-200 rounded-sm">{part.text}</mark> : <span key={i}>{part.text}</span>
+                  )}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default SearchView;
@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+import { Keyboard } from 'lucide-react';
+import { QUIZ_SHORTCUTS } from '../lib/shortcuts';
+
+const ShortcutsHelp = ({ onClose }: { onClose: () => void }) => {
+  const closeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => closeRef.current?.focus(), []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => event.key === 'Escape' && onClose();
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div role="dialog" aria-modal="true" aria-labelledby="shortcuts-title" className="bg-white rounded-xl shadow-lg p-6 w-full max-w-md">
+        <h2 id="shortcuts-title" className="text-xl font-semibold text-gray-900 mb-4 flex items-center gap-2">
+          <Keyboard className="w-5 h-5 text-indigo-600" />
+          Keyboard shortcuts
+        </h2>
+        <dl className="space-y-2 mb-6 text-sm">
+          {QUIZ_SHORTCUTS.map((shortcut) => (
+            <div key={shortcut.description} className="flex justify-between gap-4">
+              <dt className="flex gap-1">
+                {shortcut.keys.map((key) => (
+                  <kbd key={key} className="px-2 py-0.5 rounded border border-gray-300 bg-gray-50 font-mono text-gray-800">
+                    {key}
+                  </kbd>
+                ))}
+              </dt>
+              <dd className="text-gray-600 text-right">{shortcut.description}</dd>
+            </div>
+          ))}
+        </dl>
+        <p className="text-sm text-gray-500 mb-6">Shortcuts are paused while typing an answer; press Tab to leave the answer box.</p>
+        <div className="flex justify-end">
+          <button ref={closeRef} onClick={onClose} className="px-4 py-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsHelp;
@@ -0,0 +1,58 @@
+import { useEffect, useRef } from 'react';
+import { PALETTE_LABELS, PALETTE_STATUSES, PaletteState, countByStatus } from '../lib/examStatus';
+import { PaletteBadge } from './QuestionPalette';
+
+const SubmitSummary = ({
+  total,
+  state,
+  onConfirm,
+  onCancel,
+}: {
+  total: number;
+  state: PaletteState;
+  onConfirm: () => void;
+  onCancel: () => void;
+}) => {
+  const counts = countByStatus(total, state);
+  const cancelRef = useRef<HTMLButtonElement>(null);
+
+  // Focus starts on the safe choice, and Escape returns to the test
+  useEffect(() => cancelRef.current?.focus(), []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => event.key === 'Escape' && onCancel();
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div className="fixed inset-0 bg-black/40 z-50 flex items-center justify-center p-4">
+      <div role="dialog" aria-modal="true" aria-labelledby="submit-summary-title" className="bg-white rounded-xl shadow-lg p-6 w-full max-w-md">
+        <h2 id="submit-summary-title" className="text-xl font-semibold text-gray-900 mb-4">Submit test?</h2>
+        <ul className="space-y-2 mb-6">
+          {PALETTE_STATUSES.map((status) => (
+            <li key={status} className="flex items-center justify-between text-sm text-gray-700">
+              <span className="flex items-center gap-3">
+                <PaletteBadge status={status}>{counts[status]}</PaletteBadge>
+                {PALETTE_LABELS[status]}
+              </span>
+            </li>
+          ))}
+        </ul>
+        <p className="text-sm text-gray-600 mb-6">
+          Answers marked for review are evaluated. You can't change your answers after submitting.
+        </p>
+        <div className="flex justify-end gap-3">
+          <button ref={cancelRef} onClick={onCancel} className="px-4 py-2 rounded-lg text-gray-700 hover:bg-gray-100">
+            Back to test
+          </button>
+          <button onClick={onConfirm} className="px-4 py-2 rounded-lg bg-indigo-600 text-white hover:bg-indigo-700">
+            Submit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubmitSummary;
@@ -0,0 +1,47 @@
+import { renderMathInline } from '../lib/renderMath';
+import { Alignment, TableData } from '../lib/tables';
+
+const alignClass: Record<Alignment, string> = {
+  left: 'text-left',
+  center: 'text-center',
+  right: 'text-right',
+};
+
+const Table = ({ table }: { table: TableData }) => {
+  const align = (index: number) => alignClass[table.alignments[index] ?? 'left'];
+
+  return (
+    <div className="overflow-x-auto flex justify-center my-4">
+      <table className="min-w-[50%] divide-y divide-gray-200">
+        {table.headers.length > 0 && (
+          <thead>
+            <tr>
+              {table.headers.map((header, index) => (
+                <th
+                  key={index}
+                  scope="col"
+                  className={`px-6 py-3 bg-gray-50 ${align(index)} text-xs font-medium text-gray-500 uppercase tracking-wider`}
+                >
+                  {renderMathInline(header)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+        )}
+        <tbody className="bg-white divide-y divide-gray-200">
+          {table.rows.map((row, rowIndex) => (
+            <tr key={rowIndex}>
+              {row.map((cell, cellIndex) => (
+                <td key={cellIndex} className={`px-6 py-4 whitespace-nowrap ${align(cellIndex)} text-sm text-gray-500`}>
+                  {renderMathInline(cell)}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default Table;
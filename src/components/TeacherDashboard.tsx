@@ -0,0 +1,212 @@
+import { useMemo, useState } from 'react';
+import { School } from 'lucide-react';
+import { Assignment, AssignmentResults, createAssignment, getAssignmentResults, listAssignments } from '../lib/classroom';
+import { getPaperQuestions, listPapers } from '../lib/papers';
+import { buildSubjectSet } from '../lib/practice';
+import { bankManifest, getQuestionById, loadQuestions, loadQuestionsById } from '../lib/questionBank';
+import { createRandom, generateSeed } from '../lib/random';
+import { SUBJECTS, getSubjectName } from '../lib/subjects';
+import { questionId } from '../lib/validation';
+import { SubjectId } from '../types/question';
+
+const inputClassName = 'rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 text-sm';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Assignments are a full paper or a seeded random set from one subject
+const resolveSource = async (source: string): Promise<string[]> => {
+  const [kind, value] = source.split(':');
+  const questions = kind === 'paper'
+    ? getPaperQuestions(await loadQuestions((chunk) => chunk.description === value), value)
+    : buildSubjectSet(await loadQuestions((chunk) => chunk.subject === value), value as SubjectId, createRandom(generateSeed()));
+  return questions.map(questionId);
+};
+
+const TeacherDashboard = ({ serverUrl, onBack }: { serverUrl: string; onBack: () => void }) => {
+  const papers = useMemo(() => listPapers(bankManifest), []);
+  const [url, setUrl] = useState(serverUrl);
+  const [teacherKey, setTeacherKey] = useState('');
+  const [assignments, setAssignments] = useState<Assignment[] | null>(null);
+  const [results, setResults] = useState<AssignmentResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({ title: '', batch: '', source: `paper:${papers[0] ?? ''}` });
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const refresh = () => run(async () => setAssignments([...(await listAssignments(url))].reverse()));
+
+  const handleCreate = () =>
+    run(async () => {
+      await createAssignment(url, teacherKey, { title: form.title.trim(), batch: form.batch.trim(), questionIds: await resolveSource(form.source) });
+      setForm({ ...form, title: '' });
+      await refresh();
+    });
+
+  const showResults = (assignment: Assignment) =>
+    run(async () => {
+      const next = await getAssignmentResults(url, teacherKey, assignment.id);
+      // Loaded so the results can name each question's subject
+      await loadQuestionsById(next.assignment.questionIds);
+      setResults(next);
+    });
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex justify-center p-4">
+      <div className="bg-white rounded-xl shadow-lg p-8 max-w-3xl w-full self-start">
+        <div className="mb-6 flex justify-between items-center">
+          <h2 className="text-2xl font-bold text-gray-900 flex items-center gap-2">
+            <School className="w-6 h-6 text-indigo-600" />
+            Teacher dashboard
+          </h2>
+          <button onClick={results ? () => setResults(null) : onBack} className="text-gray-600 hover:text-gray-800">
+            Back
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          <input value={url} onChange={(e) => setUrl(e.target.value.trim())} placeholder="Server address" className={`${inputClassName} flex-1`} />
+          <input
+            type="password"
+            value={teacherKey}
+            onChange={(e) => setTeacherKey(e.target.value)}
+            placeholder="Teacher key"
+            className={inputClassName}
+          />
+          <button onClick={refresh} disabled={!url} className="px-4 py-2 rounded-lg bg-gray-800 text-white text-sm hover:bg-gray-900 disabled:opacity-50">
+            Connect
+          </button>
+        </div>
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        {results ? (
+          <div className="space-y-8">
+            <section>
+              <h3 className="font-medium text-gray-900 mb-3">
+                {results.assignment.title} · {results.submissions.length} submission{results.submissions.length === 1 ? '' : 's'}
+              </h3>
+              <ul className="divide-y divide-gray-200">
+                {results.submissions.map((submission) => (
+                  <li key={submission.id} className="py-2 flex justify-between text-sm">
+                    <span className="text-gray-700">
+                      {submission.student}
+                      <span className="text-gray-400 ml-2">{formatDate(submission.submittedAt)}</span>
+                    </span>
+                    <span className="font-medium text-gray-900">
+                      {submission.attempt.marks} / {submission.attempt.maxMarks}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+
+            <section>
+              <h3 className="font-medium text-gray-900 mb-3">Class accuracy by question</h3>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <th className="py-2">Question</th>
+                    <th className="py-2">Answered</th>
+                    <th className="py-2 w-1/3">Accuracy</th>
+                    <th className="py-2">Avg. time</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 text-gray-700">
+                  {results.questions.map((row, index) => {
+                    const question = getQuestionById(row.key);
+                    return (
+                      <tr key={row.key}>
+                        <td className="py-2 pr-2">
+                          Q{index + 1}
+                          <span className="block text-xs text-gray-400">
+                            {row.key}{question && ` · ${getSubjectName(question.subject)}`}
+                          </span>
+                        </td>
+                        <td className="py-2">{row.attempted} / {row.submissions}</td>
+                        <td className="py-2">
+                          <div className="flex items-center gap-2">
+                            <div className="flex-1 h-2 bg-gray-100 rounded">
+                              <div
+                                className={`h-2 rounded ${row.accuracy < 50 ? 'bg-red-500' : 'bg-green-500'}`}
+                                style={{ width: `${row.accuracy}%` }}
+                              />
+                            </div>
+                            <span className="w-12 text-right">{row.accuracy.toFixed(0)}%</span>
+                          </div>
+                        </td>
+                        <td className="py-2">{row.averageTime.toFixed(1)}s</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          </div>
+        ) : (
+          <div className="space-y-8">
+            <section>
+              <h3 className="font-medium text-gray-900 mb-3">New assignment</h3>
+              <div className="flex flex-wrap gap-2">
+                <input value={form.title} onChange={(e) => setForm({ ...form, title: e.target.value })} placeholder="Title" className={`${inputClassName} flex-1`} />
+                <input value={form.batch} onChange={(e) => setForm({ ...form, batch: e.target.value })} placeholder="Batch" className={inputClassName} />
+                <select value={form.source} onChange={(e) => setForm({ ...form, source: e.target.value })} className={inputClassName}>
+                  <optgroup label="Full paper">
+                    {papers.map((paper) => (
+                      <option key={paper} value={`paper:${paper}`}>{paper}</option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Random set">
+                    {SUBJECTS.map((subject) => (
+                      <option key={subject.id} value={`subject:${subject.id}`}>{subject.name}</option>
+                    ))}
+                  </optgroup>
+                </select>
+                <button
+                  onClick={handleCreate}
+                  disabled={!url || !form.title.trim()}
+                  className="px-4 py-2 rounded-lg bg-indigo-600 text-white text-sm hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Create
+                </button>
+              </div>
+            </section>
+
+            <section>
+              <h3 className="font-medium text-gray-900 mb-3">Assignments</h3>
+              {assignments === null ? (
+                <p className="text-sm text-gray-500">Connect to a classroom server to see assignments.</p>
+              ) : assignments.length === 0 ? (
+                <p className="text-sm text-gray-500">No assignments yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200">
+                  {assignments.map((assignment) => (
+                    <li key={assignment.id} className="py-2 flex justify-between items-center text-sm">
+                      <span className="text-gray-700">
+                        {assignment.title}
+                        <span className="text-gray-400 ml-2">
+                          {assignment.batch || 'All batches'} · {assignment.questionIds.length} questions · {formatDate(assignment.createdAt)}
+                        </span>
+                      </span>
+                      <button onClick={() => showResults(assignment)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                        Results
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TeacherDashboard;
@@ -0,0 +1,37 @@
+import { AccuracySummary } from '../lib/history';
+import { getSubjectName } from '../lib/subjects';
+import { getTopicName } from '../lib/topics';
+
+// Weakest topics first, so they are the first thing a student sees
+const TopicBreakdown = ({ summaries }: { summaries: AccuracySummary[] }) => (
+  <table className="min-w-full divide-y divide-gray-200 text-sm">
+    <thead>
+      <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+        <th className="py-2">Topic</th>
+        <th className="py-2">Attempted</th>
+        <th className="py-2">Accuracy</th>
+        <th className="py-2">Avg. time</th>
+      </tr>
+    </thead>
+    <tbody className="divide-y divide-gray-200 text-gray-700">
+      {[...summaries]
+        .sort((a, b) => a.accuracy - b.accuracy)
+        .map((row) => {
+          const [subject, topic] = row.key.split('/');
+          return (
+            <tr key={row.key}>
+              <td className="py-2 pr-2">
+                {getTopicName(subject, topic)}
+                <span className="block text-xs text-gray-400">{getSubjectName(subject)}</span>
+              </td>
+              <td className="py-2">{row.attempted}</td>
+              <td className={`py-2 ${row.accuracy < 50 ? 'text-red-600 font-medium' : ''}`}>{row.accuracy.toFixed(1)}%</td>
+              <td className="py-2">{row.averageTime.toFixed(1)}s</td>
+            </tr>
+          );
+        })}
+    </tbody>
+  </table>
+);
+
+export default TopicBreakdown;
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { registerServiceWorker } from '../lib/serviceWorker';
+
+// Offers a newer cached version of the app; an in-progress quiz is restored after the reload
+const UpdateBanner = () => {
+  const [applyUpdate, setApplyUpdate] = useState<(() => void) | null>(null);
+
+  useEffect(() => {
+    registerServiceWorker((apply) => setApplyUpdate(() => apply)).catch((error) =>
+      console.error('Could not register the service worker:', error)
+    );
+  }, []);
+
+  if (!applyUpdate) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 bg-gray-800 text-white text-sm px-4 py-2 rounded-lg shadow-lg">
+      <span>A new version of the question bank is available.</span>
+      <button onClick={applyUpdate} className="flex items-center gap-1 font-medium text-indigo-300 hover:text-indigo-200">
+        <RefreshCw className="w-4 h-4" />
+        Reload
+      </button>
+    </div>
+  );
+};
+
+export default UpdateBanner;
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { attemptsToCsv, attemptsToJson, mergeAttempts, parseAttemptsCsv, parseAttemptsJson } from './attemptExport';
+import { Attempt } from './history';
+
+const attempt: Attempt = {
+  id: 'a1',
+  label: 'JEE Adv 2019 Paper 1, "mock"',
+  startedAt: Date.parse('2024-01-01T10:00:00Z'),
+  completedAt: Date.parse('2024-01-01T11:00:00Z'),
+  marks: 3,
+  maxMarks: 8,
+  correct: 1,
+  questions: [
+    {
+      id: 'JEE Adv 2019 Paper 1#3',
+      description: 'JEE Adv 2019 Paper 1',
+      index: 3,
+      subject: 'phy',
+      topic: 'optics',
+      type: 'MCQ(multiple)',
+      gold: 'AB',
+      answer: ['A', 'B'],
+      timeSpent: 12345,
+      marks: 4,
+      maxMarks: 4,
+      correct: true,
+      hintUsed: false,
+    },
+    {
+      id: 'JEE Adv 2019 Paper 1#4',
+      description: 'JEE Adv 2019 Paper 1',
+      index: 4,
+      subject: 'chem',
+      type: 'Numeric',
+      gold: '2.5',
+      answer: ['-1.25'],
+      timeSpent: 5000,
+      marks: -1,
+      maxMarks: 4,
+      correct: false,
+      hintUsed: false,
+    },
+  ],
+};
+
+describe('CSV', () => {
+  it('round-trips attempts', () => {
+    expect(parseAttemptsCsv(attemptsToCsv([attempt]))).toEqual([attempt]);
+  });
+
+  it('names the row with a bad value', () => {
+    const csv = attemptsToCsv([attempt]).replace(',-1,4,', ',lots,4,');
+    expect(() => parseAttemptsCsv(csv)).toThrow('Row 2: marks must be a number');
+  });
+
+  it('applies the same checks as a JSON import', () => {
+    const csv = attemptsToCsv([attempt]).replace(',chem,', ',chemistry,').replace(',2.5,', ',lots,');
+    expect(() => parseAttemptsCsv(csv)).toThrow(
+      'Row 2: unknown subject "chemistry"; Row 2: Numeric gold must be a number, got "lots"'
+    );
+  });
+});
+
+describe('JSON', () => {
+  it('round-trips attempts', () => {
+    expect(parseAttemptsJson(attemptsToJson([attempt]))).toEqual([attempt]);
+  });
+
+  it('rejects questions missing the fields history needs', () => {
+    const partial = Object.fromEntries(Object.entries(attempt.questions[1]).filter(([key]) => key !== 'gold' && key !== 'marks'));
+    const file = JSON.stringify({ attempts: [attempt, { ...attempt, questions: [attempt.questions[0], partial] }] });
+    expect(() => parseAttemptsJson(file)).toThrow('Attempt 2: question 2: gold must be a string; question 2: marks must be a number');
+  });
+});
+
+describe('mergeAttempts', () => {
+  it('skips attempts already in the history', () => {
+    const merged = mergeAttempts([attempt], [attempt, { ...attempt, id: 'a2' }, { ...attempt, id: 'a2' }]);
+    expect(merged.added.map((a) => a.id)).toEqual(['a2']);
+    expect(merged.attempts.map((a) => a.id)).toEqual(['a1', 'a2']);
+  });
+});
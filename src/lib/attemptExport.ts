@@ -0,0 +1,166 @@
+import { QuestionType } from '../types/question';
+import { csvRecords, toCsv } from './csv';
+import { Attempt, AttemptQuestion, validateAttempt } from './history';
+import { QUESTION_TYPES } from './validation';
+
+// One row per question, answered or not; attempt columns repeat so each row stands alone in a spreadsheet
+const CSV_COLUMNS = [
+  'attempt_id',
+  'label',
+  'started_at',
+  'completed_at',
+  'question_id',
+  'subject',
+  'topic',
+  'type',
+  'answer',
+  'gold',
+  'correct',
+  'marks',
+  'max_marks',
+  'time_spent_s',
+  'hint_used',
+];
+
+const OPTIONAL_COLUMNS = ['topic', 'hint_used'];
+
+const EXPORT_VERSION = 1;
+
+// Options are written like gold ("AB"), so the two columns compare directly
+const formatAnswer = (q: AttemptQuestion) =>
+  q.type === 'MCQ' || q.type === 'MCQ(multiple)' ? q.answer.join('') : q.answer[0] ?? '';
+
+const parseAnswer = (type: QuestionType, value: string): string[] => {
+  if (value === '') return [];
+  return type === 'MCQ' || type === 'MCQ(multiple)' ? value.split('') : [value];
+};
+
+export const attemptsToCsv = (attempts: Attempt[]): string =>
+  toCsv([
+    CSV_COLUMNS,
+    ...attempts.flatMap((attempt) =>
+      attempt.questions.map((q) => [
+        attempt.id,
+        attempt.label,
+        new Date(attempt.startedAt).toISOString(),
+        new Date(attempt.completedAt).toISOString(),
+        q.id,
+        q.subject,
+        q.topic ?? '',
+        q.type,
+        formatAnswer(q),
+        q.gold,
+        String(q.correct),
+        String(q.marks),
+        String(q.maxMarks),
+        String(q.timeSpent / 1000),
+        String(q.hintUsed ?? false),
+      ])
+    ),
+  ]);
+
+export const attemptsToJson = (attempts: Attempt[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, attempts }, null, 2);
+
+const parseNumber = (value: string, column: string, row: number) => {
+  const number = Number(value);
+  if (value === '' || !Number.isFinite(number)) throw new Error(`Row ${row}: ${column} must be a number, got "${value}"`);
+  return number;
+};
+
+const parseDate = (value: string, column: string, row: number) => {
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`Row ${row}: ${column} must be a date, got "${value}"`);
+  return time;
+};
+
+// Totals are recomputed from the rows, so a file edited in a spreadsheet stays consistent
+export const parseAttemptsCsv = (text: string): Attempt[] => {
+  const records = csvRecords(text);
+  if (records.length === 0) return [];
+  const missing = CSV_COLUMNS.filter((column) => !OPTIONAL_COLUMNS.includes(column) && !(column in records[0]));
+  if (missing.length > 0) throw new Error(`Missing columns: ${missing.join(', ')}`);
+
+  const attempts = new Map<string, Attempt>();
+  // Rows each attempt's questions came from, so validation problems point back into the file
+  const rows = new Map<string, number[]>();
+  records.forEach((record, i) => {
+    // Counted from the first row after the header
+    const row = i + 1;
+    const type = record.type as QuestionType;
+    if (!QUESTION_TYPES.includes(type)) throw new Error(`Row ${row}: unknown question type "${record.type}"`);
+    const separator = record.question_id.lastIndexOf('#');
+    if (separator <= 0) throw new Error(`Row ${row}: question_id must look like "<description>#<index>"`);
+
+    const question: AttemptQuestion = {
+      id: record.question_id,
+      description: record.question_id.slice(0, separator),
+      index: parseNumber(record.question_id.slice(separator + 1), 'question_id index', row),
+      subject: record.subject,
+      topic: record.topic || undefined,
+      type,
+      gold: record.gold,
+      answer: parseAnswer(type, record.answer),
+      timeSpent: Math.round(parseNumber(record.time_spent_s, 'time_spent_s', row) * 1000),
+      marks: parseNumber(record.marks, 'marks', row),
+      maxMarks: parseNumber(record.max_marks, 'max_marks', row),
+      correct: record.correct.toLowerCase() === 'true',
+      hintUsed: record.hint_used?.toLowerCase() === 'true',
+    };
+
+    const attempt = attempts.get(record.attempt_id) ?? {
+      id: record.attempt_id,
+      label: record.label,
+      startedAt: parseDate(record.started_at, 'started_at', row),
+      completedAt: parseDate(record.completed_at, 'completed_at', row),
+      questions: [],
+      marks: 0,
+      maxMarks: 0,
+      correct: 0,
+    };
+    attempts.set(attempt.id, {
+      ...attempt,
+      questions: [...attempt.questions, question],
+      marks: attempt.marks + question.marks,
+      maxMarks: attempt.maxMarks + question.maxMarks,
+      correct: attempt.correct + (question.correct ? 1 : 0),
+    });
+    rows.set(attempt.id, [...(rows.get(attempt.id) ?? []), row]);
+  });
+
+  // The same checks as a JSON import, e.g. known subjects and golds that fit the question type
+  attempts.forEach((attempt) => {
+    const errors = validateAttempt(attempt).map((error) =>
+      error.replace(/^question (\d+):/, (_, n: string) => `Row ${rows.get(attempt.id)![Number(n) - 1]}:`)
+    );
+    if (errors.length > 0) throw new Error(errors.slice(0, 3).join('; '));
+  });
+  return Array.from(attempts.values());
+};
+
+// Accepts the exported file or a bare array of attempts
+export const parseAttemptsJson = (text: string): Attempt[] => {
+  const data = JSON.parse(text) as unknown;
+  const attempts = Array.isArray(data) ? data : (data as { attempts?: unknown })?.attempts;
+  if (!Array.isArray(attempts)) throw new Error('Expected an "attempts" array');
+  // The whole file is rejected, so a partly broken export never half-merges
+  attempts.forEach((attempt: unknown, i: number) => {
+    const errors = validateAttempt(attempt);
+    if (errors.length > 0) throw new Error(`Attempt ${i + 1}: ${errors.slice(0, 3).join('; ')}`);
+  });
+  return attempts as Attempt[];
+};
+
+export const parseAttemptsFile = (filename: string, text: string): Attempt[] =>
+  filename.toLowerCase().endsWith('.csv') ? parseAttemptsCsv(text) : parseAttemptsJson(text);
+
+// Attempts already in the history are kept as they are, so importing the same file twice changes nothing
+export const mergeAttempts = (existing: Attempt[], imported: Attempt[]): { attempts: Attempt[]; added: Attempt[] } => {
+  const ids = new Set(existing.map((attempt) => attempt.id));
+  const added = imported.filter((attempt) => !ids.has(attempt.id) && ids.add(attempt.id));
+  const byCompletion = (a: Attempt, b: Attempt) => a.completedAt - b.completedAt;
+  return {
+    attempts: [...existing, ...added].sort(byCompletion),
+    added: [...added].sort(byCompletion),
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { draftFromQuestion, draftToEntry } from './authoring';
+import { Question } from '../types/question';
+
+const numeric: Question = {
+  description: 'JEE Adv 2019 Paper 1',
+  index: 4,
+  subject: 'phy',
+  type: 'Numeric',
+  question: 'Find the focal length in cm.',
+  gold: '6.75',
+  decimals: 1,
+  tolerance: 0.05,
+};
+
+describe('drafts', () => {
+  it('keep the grading options of a Numeric question through an edit', () => {
+    expect(draftToEntry(draftFromQuestion(numeric))).toEqual(numeric);
+  });
+
+  it('leave grading options out for other types', () => {
+    const draft = { ...draftFromQuestion(numeric), type: 'Integer' as const, gold: '7' };
+    expect(draftToEntry(draft)).not.toHaveProperty('decimals');
+  });
+});
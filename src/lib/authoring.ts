@@ -0,0 +1,150 @@
+import { Question, QuestionType, SubjectId } from '../types/question';
+import { validateQuestion } from './validation';
+
+const AUTHORED_KEY = 'jee-qb:authored';
+
+// Form state for a question being written or edited; every field is kept as typed
+export interface QuestionDraft {
+  description: string;
+  index: string;
+  subject: SubjectId;
+  topic: string;
+  type: QuestionType;
+  question: string;
+  gold: string;
+  // Numeric grading options; empty means the defaults in grading.ts
+  decimals: string;
+  tolerance: string;
+  relativeTolerance: string;
+  hint: string;
+  solution: string;
+}
+
+// A finished entry, remembering which bank question it replaces when it was an edit
+export interface AuthoredEntry {
+  entry: Question;
+  replaces: string | null;
+}
+
+export const emptyDraft = (previous?: QuestionDraft): QuestionDraft => ({
+  description: previous?.description ?? '',
+  index: previous && previous.index !== '' ? String(Number(previous.index) + 1) : '',
+  subject: previous?.subject ?? 'phy',
+  topic: '',
+  type: previous?.type ?? 'MCQ',
+  question: '',
+  gold: '',
+  decimals: '',
+  tolerance: '',
+  relativeTolerance: '',
+  hint: '',
+  solution: '',
+});
+
+export const draftFromQuestion = (question: Question): QuestionDraft => ({
+  description: question.description,
+  index: String(question.index),
+  subject: question.subject,
+  topic: question.topic ?? '',
+  type: question.type,
+  question: question.question,
+  gold: question.gold,
+  decimals: question.type === 'Numeric' ? String(question.decimals ?? '') : '',
+  tolerance: question.type === 'Numeric' ? String(question.tolerance ?? '') : '',
+  relativeTolerance: question.type === 'Numeric' ? String(question.relativeTolerance ?? '') : '',
+  hint: question.hint ?? '',
+  solution: question.solution ?? '',
+});
+
+const normalizeGold = (type: QuestionType, gold: string) => {
+  const trimmed = gold.trim();
+  if (type === 'MCQ') return trimmed.toUpperCase();
+  // "a, c" becomes "AC"; letters outside A-D are kept so the validator can report them
+  if (type === 'MCQ(multiple)') return Array.from(new Set(trimmed.toUpperCase().replace(/[\s,]/g, ''))).sort().join('');
+  return trimmed;
+};
+
+// Only Numeric questions are graded with these; anything typed that is not a number is left for the validator
+const gradingOptions = (draft: QuestionDraft) =>
+  draft.type !== 'Numeric'
+    ? {}
+    : Object.fromEntries(
+        (['decimals', 'tolerance', 'relativeTolerance'] as const)
+          .filter((field) => draft[field].trim() !== '')
+          .map((field) => [field, Number(draft[field])])
+      );
+
+// Builds the JSON entry with keys in the same order as quiz.json; empty optional fields are left out
+export const draftToEntry = (draft: QuestionDraft) => ({
+  description: draft.description.trim(),
+  index: draft.index.trim() === '' ? NaN : Number(draft.index),
+  subject: draft.subject,
+  ...(draft.topic ? { topic: draft.topic } : {}),
+  type: draft.type,
+  question: draft.question,
+  gold: normalizeGold(draft.type, draft.gold),
+  ...gradingOptions(draft),
+  ...(draft.hint.trim() ? { hint: draft.hint } : {}),
+  ...(draft.solution.trim() ? { solution: draft.solution } : {}),
+});
+
+interface IdentifiedEntry {
+  description: unknown;
+  index: unknown;
+}
+
+const entryId = (entry: IdentifiedEntry) => `${entry.description}#${entry.index}`;
+
+// Runs the bank validator on the entry and checks it does not collide with another question
+export const validateDraft = (draft: QuestionDraft, existingIds: Set<string>, replaces: string | null): string[] => {
+  const entry = draftToEntry(draft);
+  const errors = validateQuestion(entry);
+  const id = entryId(entry);
+  if (id !== replaces && existingIds.has(id)) {
+    errors.push(`${id} already exists in the question bank`);
+  }
+  return errors;
+};
+
+// Only called once validateDraft has passed, so the entry is a well-formed Question
+export const toAuthoredEntry = (draft: QuestionDraft, replaces: string | null): AuthoredEntry => ({
+  entry: draftToEntry(draft) as unknown as Question,
+  replaces,
+});
+
+// Edits replace the original question in place, new entries are appended
+export const mergeEntries = <T extends IdentifiedEntry>(questions: T[], authored: AuthoredEntry[]): (T | Question)[] => {
+  const merged: (T | Question)[] = [...questions];
+  for (const { entry, replaces } of authored) {
+    const position = merged.findIndex((q) => {
+      const id = entryId(q);
+      return id === replaces || id === entryId(entry);
+    });
+    if (position === -1) {
+      merged.push(entry);
+    } else {
+      merged[position] = entry;
+    }
+  }
+  return merged;
+};
+
+export const authoredId = (authored: AuthoredEntry) => entryId(authored.entry);
+
+export const loadAuthoredEntries = (): AuthoredEntry[] => {
+  try {
+    const raw = localStorage.getItem(AUTHORED_KEY);
+    return raw ? (JSON.parse(raw) as AuthoredEntry[]) : [];
+  } catch (error) {
+    console.error('Could not read authored questions:', error);
+    return [];
+  }
+};
+
+export const saveAuthoredEntries = (authored: AuthoredEntry[]) => {
+  try {
+    localStorage.setItem(AUTHORED_KEY, JSON.stringify(authored));
+  } catch (error) {
+    console.error('Could not save authored questions:', error);
+  }
+};
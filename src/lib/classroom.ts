@@ -0,0 +1,147 @@
+import { AccuracySummary, Attempt, summarizeBy } from './history';
+
+const PENDING_KEY = 'jee-qb:pending-submissions';
+
+export interface Assignment {
+  id: string;
+  title: string;
+  // Students see the assignments of the batch they joined; an empty batch is for all batches
+  batch: string;
+  // Fixed when the assignment is created, see questionId()
+  questionIds: string[];
+  createdAt: number;
+}
+
+export interface NewAssignment {
+  title: string;
+  batch: string;
+  questionIds: string[];
+}
+
+export interface Submission {
+  id: string;
+  assignmentId: string;
+  student: string;
+  submittedAt: number;
+  attempt: Attempt;
+}
+
+export interface QuestionAccuracy extends AccuracySummary {
+  // Students who submitted the assignment, answered or not
+  submissions: number;
+}
+
+export interface AssignmentResults {
+  assignment: Assignment;
+  submissions: Submission[];
+  questions: QuestionAccuracy[];
+}
+
+interface PendingSubmission {
+  url: string;
+  assignmentId: string;
+  student: string;
+  attempt: Attempt;
+}
+
+// status is set when the server answered with an error, and missing when it could not be reached
+export class ClassroomError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ClassroomError';
+    this.status = status;
+  }
+}
+
+// Per-question class accuracy, in assignment order; questions nobody answered report zero
+export const summarizeResults = (assignment: Assignment, submissions: Submission[]): AssignmentResults => {
+  const byId = new Map(summarizeBy(submissions.map((s) => s.attempt), (q) => q.id).map((row) => [row.key, row]));
+  return {
+    assignment,
+    submissions,
+    questions: assignment.questionIds.map((id) => ({
+      ...(byId.get(id) ?? { key: id, attempted: 0, correct: 0, accuracy: 0, averageTime: 0 }),
+      submissions: submissions.length,
+    })),
+  };
+};
+
+const request = async <T>(url: string, path: string, init: RequestInit = {}, teacherKey?: string): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(`${url.replace(/\/+$/, '')}/api${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(teacherKey ? { 'X-Teacher-Key': teacherKey } : {}),
+      },
+    });
+  } catch {
+    throw new ClassroomError(`Could not reach the classroom server at ${url}`);
+  }
+  const body = (await response.json().catch(() => ({}))) as T & { error?: string };
+  if (!response.ok) throw new ClassroomError(body.error ?? `Request failed with status ${response.status}`, response.status);
+  return body;
+};
+
+export const listAssignments = (url: string, batch?: string) =>
+  request<Assignment[]>(url, `/assignments${batch ? `?batch=${encodeURIComponent(batch)}` : ''}`);
+
+export const createAssignment = (url: string, teacherKey: string, assignment: NewAssignment) =>
+  request<Assignment>(url, '/assignments', { method: 'POST', body: JSON.stringify(assignment) }, teacherKey);
+
+export const getAssignmentResults = (url: string, teacherKey: string, assignmentId: string) =>
+  request<AssignmentResults>(url, `/assignments/${encodeURIComponent(assignmentId)}/results`, {}, teacherKey);
+
+const postSubmission = ({ url, assignmentId, student, attempt }: PendingSubmission) =>
+  request<Submission>(url, `/assignments/${encodeURIComponent(assignmentId)}/submissions`, {
+    method: 'POST',
+    body: JSON.stringify({ student, attempt }),
+  });
+
+const loadPending = (): PendingSubmission[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_KEY) ?? '[]') as PendingSubmission[];
+  } catch (error) {
+    console.error('Could not read pending submissions:', error);
+    return [];
+  }
+};
+
+const savePending = (pending: PendingSubmission[]) => {
+  try {
+    localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  } catch (error) {
+    console.error('Could not save pending submissions:', error);
+  }
+};
+
+// Submissions that fail because the server is unreachable are kept and retried later;
+// returns whether this one reached the server
+export const submitAttempt = async (submission: PendingSubmission): Promise<boolean> => {
+  try {
+    await postSubmission(submission);
+    return true;
+  } catch (error) {
+    if (error instanceof ClassroomError && error.status !== undefined) throw error;
+    savePending([...loadPending(), submission]);
+    return false;
+  }
+};
+
+// Returns how many submissions are still waiting for the server
+export const flushPendingSubmissions = async (): Promise<number> => {
+  const remaining: PendingSubmission[] = [];
+  for (const submission of loadPending()) {
+    try {
+      await postSubmission(submission);
+    } catch (error) {
+      // Rejected by the server (e.g. the assignment was deleted): retrying will not help
+      if (!(error instanceof ClassroomError && error.status !== undefined)) remaining.push(submission);
+    }
+  }
+  savePending(remaining);
+  return remaining.length;
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Calibration, calibrate, difficultyLabel, newRating, pickAdaptiveQuestion, questionRating } from './difficulty';
+import { Attempt } from './history';
+import { createRandom } from './random';
+import { questionId } from './validation';
+import { Question } from '../types/question';
+
+const pool: Question[] = Array.from({ length: 40 }, (_, i) => ({
+  description: 'JEE Adv 2019 Paper 1',
+  index: i + 1,
+  subject: 'phy',
+  type: 'Integer',
+  gold: '1',
+  question: `Question ${i + 1}`,
+}));
+
+const unrated: Calibration = { questions: new Map(), ability: newRating() };
+
+describe('pickAdaptiveQuestion', () => {
+  it('draws unrated questions from the whole pool, not the first few in the file', () => {
+    const picked = new Set(
+      Array.from({ length: 20 }, (_, i) =>
+        pickAdaptiveQuestion(pool, new Set(), 1500, unrated, createRandom(`seed-${i}`))!.index
+      )
+    );
+    expect(picked.size).toBeGreaterThan(5);
+    expect([...picked].some((index) => index > 5)).toBe(true);
+  });
+
+  it('prefers questions rated close to the ability', () => {
+    const calibration: Calibration = {
+      questions: new Map(pool.map((q) => [questionId(q), { rating: q.index === 7 ? 1800 : 1000, count: 5 }])),
+      ability: newRating(),
+    };
+    // A random of 0 takes the closest question
+    expect(pickAdaptiveQuestion(pool, new Set(), 1800, calibration, () => 0)?.index).toBe(7);
+  });
+
+  it('skips questions already used', () => {
+    const used = new Set(pool.slice(1).map(questionId));
+    expect(pickAdaptiveQuestion(pool, used, 1500, unrated)?.index).toBe(1);
+    expect(pickAdaptiveQuestion(pool, new Set(pool.map(questionId)), 1500, unrated)).toBeUndefined();
+  });
+});
+
+describe('difficultyLabel', () => {
+  const attemptOf = (correct: boolean): Attempt => ({
+    id: 'a1',
+    label: 'phy',
+    startedAt: 0,
+    completedAt: 1,
+    marks: correct ? 4 : -1,
+    maxMarks: 4,
+    correct: correct ? 1 : 0,
+    questions: [{
+      id: questionId(pool[0]),
+      description: pool[0].description,
+      index: pool[0].index,
+      subject: 'phy',
+      type: 'Integer',
+      gold: '1',
+      answer: [correct ? '1' : '2'],
+      timeSpent: 60000,
+      marks: correct ? 4 : 0,
+      maxMarks: 4,
+      correct,
+    }],
+  });
+
+  it('labels a question after a single answer, relative to the student', () => {
+    const easy = calibrate([attemptOf(true)]);
+    expect(difficultyLabel(questionRating(easy, pool[0]), easy.ability.rating)).toBe('Easy');
+    const hard = calibrate([attemptOf(false)]);
+    expect(difficultyLabel(questionRating(hard, pool[0]), hard.ability.rating)).toBe('Hard');
+  });
+
+  it('leaves unanswered questions unrated', () => {
+    expect(difficultyLabel(questionRating(unrated, pool[1]), 1500)).toBe('Unrated');
+  });
+
+  it('treats an answer typed and then cleared as unanswered', () => {
+    const wrong = attemptOf(false);
+    const cleared = calibrate([{ ...wrong, questions: [{ ...wrong.questions[0], answer: [''] }] }]);
+    expect(cleared.ability).toEqual(newRating());
+    expect(difficultyLabel(questionRating(cleared, pool[0]), cleared.ability.rating)).toBe('Unrated');
+  });
+});
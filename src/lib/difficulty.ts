@@ -0,0 +1,108 @@
+import { Question } from '../types/question';
+import { isAnswered } from './examStatus';
+import { Attempt } from './history';
+import { shuffle } from './sampling';
+import { questionId } from './validation';
+
+// Elo ratings: a student whose ability equals a question's rating answers it correctly half the time.
+// They are calibrated from this device's attempts only, so question ratings say how hard a question
+// was for this student, not for students in general.
+export const INITIAL_RATING = 1500;
+const SCALE = 400;
+const BASE_K = 64;
+const MIN_K = 16;
+// About the time per question a JEE Advanced paper allows
+const EXPECTED_TIME_MS = 3 * 60 * 1000;
+// Adaptive sessions pick randomly among this many of the closest-rated questions, so repeats vary
+const ADAPTIVE_CHOICES = 5;
+// A single answer moves an unrated question and the student about 32 points apart each, so one answer is enough for a label
+const LABEL_MARGIN = 50;
+
+export interface Rating {
+  rating: number;
+  // Answers the rating is based on
+  count: number;
+}
+
+export interface Calibration {
+  // Keyed by questionId(); questions nobody has answered are missing
+  questions: Map<string, Rating>;
+  ability: Rating;
+}
+
+export type DifficultyLabel = 'Easy' | 'Medium' | 'Hard' | 'Unrated';
+
+export const newRating = (): Rating => ({ rating: INITIAL_RATING, count: 0 });
+
+export const expectedScore = (ability: number, difficulty: number) =>
+  1 / (1 + 10 ** ((difficulty - ability) / SCALE));
+
+// Fraction of the marks earned, discounted for answers that took longer than expected
+export const outcomeScore = (marks: number, maxMarks: number, timeSpent: number) => {
+  const earned = maxMarks > 0 ? Math.max(0, marks) / maxMarks : 0;
+  const slowness = timeSpent > EXPECTED_TIME_MS ? Math.max(0.5, EXPECTED_TIME_MS / timeSpent) : 1;
+  return earned * slowness;
+};
+
+// Ratings move quickly while they rest on few answers, then settle
+const kFactor = (rating: Rating) => Math.max(MIN_K, BASE_K / Math.sqrt(1 + rating.count));
+
+// One answer moves the student and the question in opposite directions
+export const updateRatings = (ability: Rating, question: Rating, score: number): [Rating, Rating] => {
+  const surprise = score - expectedScore(ability.rating, question.rating);
+  return [
+    { rating: ability.rating + kFactor(ability) * surprise, count: ability.count + 1 },
+    { rating: question.rating - kFactor(question) * surprise, count: question.count + 1 },
+  ];
+};
+
+// Replays every answered question in the order it was attempted; unanswered ones carry no signal
+export const calibrate = (attempts: Attempt[]): Calibration => {
+  const questions = new Map<string, Rating>();
+  let ability = newRating();
+
+  [...attempts]
+    .sort((a, b) => a.completedAt - b.completedAt)
+    .forEach((attempt) =>
+      attempt.questions
+        .filter((q) => isAnswered(q.answer))
+        .forEach((q) => {
+          const [nextAbility, nextQuestion] = updateRatings(
+            ability,
+            questions.get(q.id) ?? newRating(),
+            outcomeScore(q.marks, q.maxMarks, q.timeSpent)
+          );
+          ability = nextAbility;
+          questions.set(q.id, nextQuestion);
+        })
+    );
+
+  return { questions, ability };
+};
+
+export const questionRating = (calibration: Calibration, question: Question): Rating =>
+  calibration.questions.get(questionId(question)) ?? newRating();
+
+// Relative to the student's current ability, since both ratings come from the same student's answers
+export const difficultyLabel = (rating: Rating, ability: number): DifficultyLabel => {
+  if (rating.count === 0) return 'Unrated';
+  if (rating.rating < ability - LABEL_MARGIN) return 'Easy';
+  if (rating.rating > ability + LABEL_MARGIN) return 'Hard';
+  return 'Medium';
+};
+
+// Next question for an adaptive session: one of the unused questions rated closest to the student's ability.
+// Shuffling first breaks ties at random, so unrated questions are not drawn in quiz.json order
+export const pickAdaptiveQuestion = (
+  pool: Question[],
+  used: Set<string>,
+  ability: number,
+  calibration: Calibration,
+  random: () => number = Math.random
+): Question | undefined => {
+  const closest = shuffle(pool.filter((q) => !used.has(questionId(q))), random)
+    .map((q) => ({ q, distance: Math.abs(questionRating(calibration, q).rating - ability) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, ADAPTIVE_CHOICES);
+  return closest[Math.floor(random() * closest.length)]?.q;
+};
@@ -0,0 +1,36 @@
+// Question states shown in the JEE CBT question palette
+export type PaletteStatus = 'notVisited' | 'notAnswered' | 'answered' | 'marked' | 'answeredMarked';
+
+export const PALETTE_STATUSES: PaletteStatus[] = ['notVisited', 'notAnswered', 'answered', 'marked', 'answeredMarked'];
+
+export const PALETTE_LABELS: Record<PaletteStatus, string> = {
+  notVisited: 'Not Visited',
+  notAnswered: 'Not Answered',
+  answered: 'Answered',
+  marked: 'Marked for Review',
+  answeredMarked: 'Answered & Marked for Review',
+};
+
+export interface PaletteState {
+  visited: Record<number, boolean>;
+  marked: Record<number, boolean>;
+  answers: Record<number, string[]>;
+}
+
+export const isAnswered = (answer: string[] | undefined) =>
+  !!answer && answer.some((a) => a.trim() !== '');
+
+export const getPaletteStatus = (index: number, { visited, marked, answers }: PaletteState): PaletteStatus => {
+  const answered = isAnswered(answers[index]);
+  if (marked[index]) return answered ? 'answeredMarked' : 'marked';
+  if (answered) return 'answered';
+  return visited[index] ? 'notAnswered' : 'notVisited';
+};
+
+export const countByStatus = (total: number, state: PaletteState): Record<PaletteStatus, number> => {
+  const counts = Object.fromEntries(PALETTE_STATUSES.map((status) => [status, 0])) as Record<PaletteStatus, number>;
+  for (let index = 0; index < total; index++) {
+    counts[getPaletteStatus(index, state)]++;
+  }
+  return counts;
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { isAnswerCorrect, normalizeNumeric } from './grading';
+
+const numeric = (gold: string, extra: object = {}) => ({ type: 'Numeric', gold, ...extra });
+
+describe('Numeric answers', () => {
+  it('accepts answers equal to two decimal places', () => {
+    expect(isAnswerCorrect(numeric('6.75'), ['6.750'])).toBe(true);
+    expect(isAnswerCorrect(numeric('6.75'), ['6.754'])).toBe(true);
+    expect(isAnswerCorrect(numeric('0.1'), ['0.10'])).toBe(true);
+  });
+
+  it('rejects answers that differ in the second decimal place', () => {
+    expect(isAnswerCorrect(numeric('6.75'), ['6.8'])).toBe(false);
+    expect(isAnswerCorrect(numeric('6.75'), ['6.74'])).toBe(false);
+  });
+
+  it('gives large golds no relative window', () => {
+    expect(isAnswerCorrect(numeric('1000'), ['1009'])).toBe(false);
+    expect(isAnswerCorrect(numeric('2500'), ['2524'])).toBe(false);
+    expect(isAnswerCorrect(numeric('8500'), ['8585'])).toBe(false);
+    expect(isAnswerCorrect(numeric('18900'), ['18711'])).toBe(false);
+    expect(isAnswerCorrect(numeric('18900'), ['18900.00'])).toBe(true);
+  });
+
+  it('applies per-question tolerances', () => {
+    expect(isAnswerCorrect(numeric('1000', { relativeTolerance: 0.01 }), ['1009'])).toBe(true);
+    expect(isAnswerCorrect(numeric('3.14', { tolerance: 0.02 }), ['3.16'])).toBe(true);
+    expect(isAnswerCorrect(numeric('3.14', { tolerance: 0.02 }), ['3.17'])).toBe(false);
+  });
+
+  it('reads the unicode minus sign', () => {
+    expect(normalizeNumeric('−2.5')).toBe(-2.5);
+    expect(isAnswerCorrect(numeric('-2.5'), ['−2.50'])).toBe(true);
+    expect(isAnswerCorrect(numeric('-2.5'), ['2.5'])).toBe(false);
+  });
+});
+
+describe('Integer answers', () => {
+  it('accepts an integral decimal', () => {
+    expect(isAnswerCorrect({ type: 'Integer', gold: '5' }, ['5.0'])).toBe(true);
+    expect(isAnswerCorrect({ type: 'Integer', gold: '5' }, ['5.5'])).toBe(false);
+    expect(isAnswerCorrect({ type: 'Integer', gold: '-3' }, ['−3'])).toBe(true);
+  });
+});
+
+describe('MCQ(multiple) answers', () => {
+  it('ignores the order options were chosen in', () => {
+    expect(isAnswerCorrect({ type: 'MCQ(multiple)', gold: 'ACD' }, ['D', 'A', 'C'])).toBe(true);
+    expect(isAnswerCorrect({ type: 'MCQ(multiple)', gold: 'ACD' }, ['A', 'C'])).toBe(false);
+    expect(isAnswerCorrect({ type: 'MCQ(multiple)', gold: 'AB' }, ['A', 'B', 'C'])).toBe(false);
+  });
+});
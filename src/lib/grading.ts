@@ -0,0 +1,91 @@
+export interface GradingOptions {
+  // Decimal places the answer is rounded to before comparison
+  decimals: number;
+  // Absolute difference accepted between answer and gold
+  tolerance: number;
+  // Difference accepted as a fraction of the gold value; wider windows are set per question
+  relativeTolerance: number;
+}
+
+export interface GradableQuestion extends Partial<GradingOptions> {
+  type: string;
+  gold: string;
+}
+
+// JEE Advanced grades numeric answers correct to two decimal places
+export const DEFAULT_GRADING_OPTIONS: GradingOptions = {
+  decimals: 2,
+  tolerance: 0,
+  relativeTolerance: 0,
+};
+
+const EPSILON = 1e-9;
+
+export const normalizeNumeric = (input: string): number | null => {
+  const cleaned = input
+    .trim()
+    .replace(/−/g, '-') // unicode minus sign
+    .replace(/[\s,]/g, '')
+    .replace(/^\+/, '')
+    .replace(/\.$/, '');
+  if (!/^-?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(cleaned)) return null;
+  const value = Number(cleaned);
+  return Number.isFinite(value) ? value : null;
+};
+
+export const normalizeOptions = (answer: string[]): string =>
+  Array.from(new Set(answer.join('').toUpperCase().replace(/[^A-D]/g, '')))
+    .sort()
+    .join('');
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round((value + Math.sign(value) * EPSILON) * factor) / factor;
+};
+
+export const resolveGradingOptions = (
+  question: GradableQuestion,
+  overrides: Partial<GradingOptions> = {}
+): GradingOptions => ({
+  decimals: question.decimals ?? overrides.decimals ?? DEFAULT_GRADING_OPTIONS.decimals,
+  tolerance: question.tolerance ?? overrides.tolerance ?? DEFAULT_GRADING_OPTIONS.tolerance,
+  relativeTolerance:
+    question.relativeTolerance ?? overrides.relativeTolerance ?? DEFAULT_GRADING_OPTIONS.relativeTolerance,
+});
+
+export const isNumericCorrect = (answer: string, gold: string, options: GradingOptions): boolean => {
+  const value = normalizeNumeric(answer);
+  const expected = normalizeNumeric(gold);
+  if (value === null || expected === null) return false;
+
+  // Half a unit in the last place, so answers that round to the gold are equal despite floating point error
+  const halfUnit = 0.5 * 10 ** -options.decimals;
+  const allowed = Math.max(halfUnit, options.tolerance, options.relativeTolerance * Math.abs(expected));
+  return Math.abs(roundTo(value, options.decimals) - roundTo(expected, options.decimals)) <= allowed + EPSILON;
+};
+
+export const isIntegerCorrect = (answer: string, gold: string): boolean => {
+  const value = normalizeNumeric(answer);
+  const expected = normalizeNumeric(gold);
+  return value !== null && expected !== null && Number.isInteger(value) && value === expected;
+};
+
+export const isAnswerCorrect = (
+  question: GradableQuestion,
+  answer: string[] | undefined,
+  overrides: Partial<GradingOptions> = {}
+): boolean => {
+  if (!answer || answer.length === 0) return false;
+
+  switch (question.type) {
+    case 'MCQ':
+    case 'MCQ(multiple)':
+      return normalizeOptions(answer) === normalizeOptions([question.gold]);
+    case 'Integer':
+      return isIntegerCorrect(answer[0], question.gold);
+    case 'Numeric':
+      return isNumericCorrect(answer[0], question.gold, resolveGradingOptions(question, overrides));
+    default:
+      return answer[0].trim() === question.gold.trim();
+  }
+};
@@ -0,0 +1,227 @@
+import { Question, QuestionType, SubjectId } from '../types/question';
+import { PracticeFilters } from './practice';
+import { HintUsage, scoreQuestions } from './marking';
+import { Rating } from './difficulty';
+import { isAnswered } from './examStatus';
+import { UNTAGGED_TOPIC, getQuestionTopic } from './topics';
+import { QUESTION_TYPES, SUBJECT_IDS, questionId, validateGold } from './validation';
+
+const ATTEMPTS_KEY = 'jee-qb:attempts';
+const SESSION_KEY = 'jee-qb:session';
+
+// Snapshot of a question as it was when attempted, so history survives question bank updates
+export interface AttemptQuestion {
+  id: string;
+  description: string;
+  index: number;
+  subject: string;
+  topic?: string;
+  type: QuestionType;
+  gold: string;
+  answer: string[];
+  timeSpent: number;
+  marks: number;
+  maxMarks: number;
+  correct: boolean;
+  hintUsed?: boolean;
+}
+
+export interface Attempt {
+  id: string;
+  // Subject id, or the paper description for full paper attempts
+  label: string;
+  startedAt: number;
+  completedAt: number;
+  questions: AttemptQuestion[];
+  marks: number;
+  maxMarks: number;
+  correct: number;
+}
+
+export interface SavedSession {
+  selectedSubject: SubjectId | null;
+  selectedPaper: string | null;
+  isDueReview?: boolean;
+  singleQuestionId?: string | null;
+  // Classroom assignment being answered; the result is submitted to its server
+  assignment?: { id: string; title: string } | null;
+  // Running ability estimate of an adaptive practice session, which grows one question at a time
+  adaptiveAbility?: Rating | null;
+  practiceFilters?: PracticeFilters | null;
+  seed?: string | null;
+  deadline: number | null;
+  startTime: number | null;
+  questionIds: string[];
+  currentQuestion: number;
+  answers: Record<number, string[]>;
+  timePerQuestion: Record<number, number>;
+  visited?: Record<number, boolean>;
+  marked?: Record<number, boolean>;
+  hintsUsed?: Record<number, boolean>;
+  // Penalty in effect when the session started, so changing the setting mid-quiz has no effect
+  hintPenalty?: number;
+}
+
+export interface TrendPoint {
+  completedAt: number;
+  percentage: number;
+}
+
+export interface AccuracySummary {
+  key: string;
+  attempted: number;
+  correct: number;
+  accuracy: number;
+  averageTime: number;
+}
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    console.error(`Could not read ${key} from local storage:`, error);
+    return fallback;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Could not write ${key} to local storage:`, error);
+  }
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const validateAttemptQuestion = (raw: unknown): string[] => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return ['is not an object'];
+  const q = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  (['id', 'description', 'subject', 'gold'] as const)
+    .filter((field) => typeof q[field] !== 'string')
+    .forEach((field) => errors.push(`${field} must be a string`));
+  (['index', 'timeSpent', 'marks', 'maxMarks'] as const)
+    .filter((field) => !isFiniteNumber(q[field]))
+    .forEach((field) => errors.push(`${field} must be a number`));
+  if (typeof q.subject === 'string' && !SUBJECT_IDS.includes(q.subject as SubjectId)) errors.push(`unknown subject "${q.subject}"`);
+  if (!QUESTION_TYPES.includes(q.type as QuestionType)) {
+    errors.push(`unknown type "${String(q.type)}"`);
+  } else if (typeof q.gold === 'string') {
+    const goldError = validateGold(q.type as QuestionType, q.gold);
+    if (goldError) errors.push(goldError);
+  }
+  if (!Array.isArray(q.answer) || !q.answer.every((a) => typeof a === 'string')) errors.push('answer must be a list of strings');
+  if (typeof q.correct !== 'boolean') errors.push('correct must be true or false');
+  if (q.topic !== undefined && typeof q.topic !== 'string') errors.push('topic must be a string when present');
+  if (q.hintUsed !== undefined && typeof q.hintUsed !== 'boolean') errors.push('hintUsed must be true or false when present');
+  return errors;
+};
+
+// Problems with an attempt that came from outside this device, e.g. an imported file or a classroom submission;
+// an empty list means it can be stored and summarized
+export const validateAttempt = (raw: unknown): string[] => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return ['attempt is not an object'];
+  const attempt = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  (['id', 'label'] as const)
+    .filter((field) => typeof attempt[field] !== 'string')
+    .forEach((field) => errors.push(`${field} must be a string`));
+  (['startedAt', 'completedAt', 'marks', 'maxMarks', 'correct'] as const)
+    .filter((field) => !isFiniteNumber(attempt[field]))
+    .forEach((field) => errors.push(`${field} must be a number`));
+  if (!Array.isArray(attempt.questions)) return [...errors, 'questions must be a list'];
+  attempt.questions.forEach((q: unknown, i: number) =>
+    validateAttemptQuestion(q).forEach((error) => errors.push(`question ${i + 1}: ${error}`))
+  );
+  return errors;
+};
+
+export const loadAttempts = (): Attempt[] => readJson<Attempt[]>(ATTEMPTS_KEY, []);
+
+export const saveAttempts = (attempts: Attempt[]) => writeJson(ATTEMPTS_KEY, attempts);
+
+export const saveAttempt = (attempt: Attempt) => saveAttempts([...loadAttempts(), attempt]);
+
+export const clearAttempts = () => localStorage.removeItem(ATTEMPTS_KEY);
+
+export const loadSession = (): SavedSession | null => readJson<SavedSession | null>(SESSION_KEY, null);
+
+export const saveSession = (session: SavedSession) => writeJson(SESSION_KEY, session);
+
+export const clearSession = () => localStorage.removeItem(SESSION_KEY);
+
+export const createAttempt = (
+  label: string,
+  questions: Question[],
+  answers: Record<number, string[]>,
+  timePerQuestion: Record<number, number>,
+  startedAt: number,
+  hints?: HintUsage
+): Attempt => {
+  const { breakdown, marks, maxMarks, correct } = scoreQuestions(questions, answers, hints);
+
+  return {
+    id: `${startedAt}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    startedAt,
+    completedAt: Date.now(),
+    questions: questions.map((q, index) => ({
+      id: questionId(q),
+      description: q.description,
+      index: q.index,
+      subject: q.subject,
+      topic: getQuestionTopic(q),
+      type: q.type,
+      gold: q.gold,
+      answer: answers[index] ?? [],
+      timeSpent: timePerQuestion[index] ?? 0,
+      marks: breakdown[index].marks,
+      maxMarks: breakdown[index].maxMarks,
+      correct: breakdown[index].status === 'correct',
+      hintUsed: breakdown[index].hintUsed,
+    })),
+    marks,
+    maxMarks,
+    correct,
+  };
+};
+
+export const subjectTrend = (attempts: Attempt[], subject: string): TrendPoint[] =>
+  attempts
+    .map((attempt) => {
+      const questions = attempt.questions.filter((q) => q.subject === subject);
+      const maxMarks = questions.reduce((acc, q) => acc + q.maxMarks, 0);
+      const marks = questions.reduce((acc, q) => acc + q.marks, 0);
+      return { completedAt: attempt.completedAt, maxMarks, marks };
+    })
+    .filter((point) => point.maxMarks > 0)
+    .sort((a, b) => a.completedAt - b.completedAt)
+    .map(({ completedAt, marks, maxMarks }) => ({ completedAt, percentage: (marks / maxMarks) * 100 }));
+
+export const summarizeBy = (
+  attempts: Attempt[],
+  keyOf: (q: AttemptQuestion) => string
+): AccuracySummary[] => {
+  const groups = new Map<string, AttemptQuestion[]>();
+  attempts.forEach((attempt) =>
+    attempt.questions
+      // An answer typed and then cleared counts as skipped, not as a wrong attempt
+      .filter((q) => isAnswered(q.answer))
+      .forEach((q) => groups.set(keyOf(q), [...(groups.get(keyOf(q)) ?? []), q]))
+  );
+
+  return Array.from(groups.entries()).map(([key, questions]) => {
+    const correct = questions.filter((q) => q.correct).length;
+    return {
+      key,
+      attempted: questions.length,
+      correct,
+      accuracy: (correct / questions.length) * 100,
+      averageTime: questions.reduce((acc, q) => acc + q.timeSpent, 0) / questions.length / 1000,
+    };
+  });
+};
+
+export const topicKey = (q: Pick<AttemptQuestion, 'subject' | 'topic'>) => `${q.subject}/${q.topic ?? UNTAGGED_TOPIC}`;
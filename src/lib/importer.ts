@@ -0,0 +1,214 @@
+import { QuestionType, SubjectId } from '../types/question';
+import { csvRecords } from './csv';
+import { normalizeNumeric, normalizeOptions } from './grading';
+import { OPTION_LETTERS } from './options';
+import { toPlainText } from './search';
+import { QUESTION_TYPES, SUBJECT_IDS, validateQuestion } from './validation';
+
+// A question as found in the LaTeX source, before the answer key is applied
+export interface TexQuestion {
+  index: number;
+  subject: SubjectId | null;
+  stem: string;
+  options: string[];
+}
+
+export interface AnswerKeyRow {
+  gold: string;
+  type?: QuestionType;
+  subject?: SubjectId;
+}
+
+// Entry in quiz.json key order
+export interface ImportedEntry {
+  description: string;
+  index: number;
+  subject: SubjectId | null;
+  type: QuestionType;
+  question: string;
+  gold: string;
+}
+
+export type ImportStatus = 'new' | 'duplicate' | 'conflict' | 'invalid';
+
+export interface ImportReportItem {
+  id: string;
+  status: ImportStatus;
+  messages: string[];
+  entry: ImportedEntry;
+}
+
+interface BankEntry {
+  description: string;
+  index: number;
+  type: string;
+  question: string;
+  gold: string;
+}
+
+const TOKEN_PATTERN = /\\begin\{(?:enumerate|itemize)\}(?:\[[^\]]*\])?|\\end\{(?:enumerate|itemize)\}|\\item\b(?:\[([^\]]*)\])?|\\section\*?\{([^}]*)\}/g;
+
+const SUBJECT_NAMES: [RegExp, SubjectId][] = [
+  [/phys/i, 'phy'],
+  [/chem/i, 'chem'],
+  [/math/i, 'math'],
+];
+
+const subjectFromHeading = (heading: string): SubjectId | null =>
+  SUBJECT_NAMES.find(([pattern]) => pattern.test(heading))?.[1] ?? null;
+
+const stripComments = (tex: string) => tex.replace(/(^|[^\\])%.*$/gm, '$1');
+
+const documentBody = (tex: string) => {
+  const match = tex.match(/\\begin\{document\}([\s\S]*?)\\end\{document\}/);
+  return match ? match[1] : tex;
+};
+
+const cleanText = (text: string) => text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+// Reads questions from the outer enumerate of a paper: each \item is a question, and the
+// \item entries of an enumerate nested inside it are its options. \section headings such
+// as "Physics" switch the subject; \item[12.] overrides the running question number.
+export const parseTexPaper = (tex: string): TexQuestion[] => {
+  const body = documentBody(stripComments(tex));
+  const questions: TexQuestion[] = [];
+  let depth = 0;
+  let subject: SubjectId | null = null;
+  let counter = 0;
+  let current: TexQuestion | null = null;
+  let last = 0;
+
+  const appendText = (text: string) => {
+    if (!current || depth === 0) return;
+    if (depth === 1) {
+      current.stem += text;
+    } else if (current.options.length > 0) {
+      current.options[current.options.length - 1] += text;
+    }
+  };
+
+  for (const match of body.matchAll(TOKEN_PATTERN)) {
+    appendText(body.slice(last, match.index));
+    last = match.index! + match[0].length;
+    const token = match[0];
+
+    if (token.startsWith('\\section')) {
+      subject = subjectFromHeading(match[2]) ?? subject;
+    } else if (token.startsWith('\\begin')) {
+      depth++;
+    } else if (token.startsWith('\\end')) {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 1) {
+      const label = match[1] ? parseInt(match[1].replace(/\D/g, ''), 10) : NaN;
+      counter = Number.isNaN(label) ? counter + 1 : label;
+      current = { index: counter, subject, stem: '', options: [] };
+      questions.push(current);
+    } else if (depth === 2 && current) {
+      current.options.push('');
+    }
+  }
+
+  return questions.map((q) => ({ ...q, stem: cleanText(q.stem), options: q.options.map(cleanText) }));
+};
+
+const KEY_COLUMNS = {
+  index: ['index', 'q', 'question', 'no', 'number'],
+  gold: ['gold', 'answer', 'key'],
+  description: ['description', 'paper'],
+};
+
+const column = (record: Record<string, string>, names: string[]) =>
+  names.map((name) => record[name]).find((value) => value !== undefined && value !== '');
+
+// Reads an answer key with a header row, e.g. "index,gold,type". Rows naming a different
+// paper in an optional description column are skipped.
+export const parseAnswerKey = (csv: string, description: string): Map<number, AnswerKeyRow> => {
+  const key = new Map<number, AnswerKeyRow>();
+  for (const record of csvRecords(csv)) {
+    const paper = column(record, KEY_COLUMNS.description);
+    const index = parseInt(column(record, KEY_COLUMNS.index) ?? '', 10);
+    if ((paper && paper !== description) || Number.isNaN(index)) continue;
+
+    const type = record.type as QuestionType | undefined;
+    const subject = record.subject as SubjectId | undefined;
+    key.set(index, {
+      gold: (column(record, KEY_COLUMNS.gold) ?? '').toUpperCase(),
+      type: type && QUESTION_TYPES.includes(type) ? type : undefined,
+      subject: subject && SUBJECT_IDS.includes(subject) ? subject : undefined,
+    });
+  }
+  return key;
+};
+
+// Without a type column: options make it MCQ (several letters: multiple), otherwise the gold decides
+const inferType = (question: TexQuestion, gold: string): QuestionType => {
+  if (question.options.length > 0) return gold.replace(/[^A-D]/g, '').length > 1 ? 'MCQ(multiple)' : 'MCQ';
+  return /^-?\d+$/.test(gold) ? 'Integer' : 'Numeric';
+};
+
+// Options are written as "(A) ..." paragraphs after the stem, which is what parseOptions reads back
+const questionText = (question: TexQuestion) =>
+  [question.stem, ...question.options.map((option, i) => `(${OPTION_LETTERS[i] ?? i + 1}) ${option}`)].join('\n\n');
+
+export const buildImportedEntries = (
+  questions: TexQuestion[],
+  key: Map<number, AnswerKeyRow>,
+  description: string,
+  defaultSubject: SubjectId | null = null
+): ImportedEntry[] =>
+  questions.map((question) => {
+    const row = key.get(question.index);
+    const gold = row?.gold ?? '';
+    const type = row?.type ?? inferType(question, gold);
+    return {
+      description,
+      index: question.index,
+      subject: row?.subject ?? question.subject ?? defaultSubject,
+      type,
+      question: questionText(question),
+      gold: type === 'MCQ(multiple)' ? normalizeOptions([gold]) : gold,
+    };
+  });
+
+const sameGold = (type: string, a: string, b: string) => {
+  if (type === 'MCQ' || type === 'MCQ(multiple)') return normalizeOptions([a]) === normalizeOptions([b]);
+  const x = normalizeNumeric(a);
+  const y = normalizeNumeric(b);
+  return x !== null && y !== null ? x === y : a.trim() === b.trim();
+};
+
+// Compares imported entries with the bank: the same (description, index) with the same gold is a
+// duplicate, with a different gold a conflict, and identical question text under another id is
+// flagged as a likely duplicate too
+export const diffAgainstBank = (entries: ImportedEntry[], bank: BankEntry[]): ImportReportItem[] => {
+  const byId = new Map(bank.map((q) => [`${q.description}#${q.index}`, q]));
+  const byText = new Map(bank.map((q) => [toPlainText(q.question).toLowerCase(), `${q.description}#${q.index}`]));
+  const seen = new Set<string>();
+
+  return entries.map((entry) => {
+    const id = `${entry.description}#${entry.index}`;
+    const messages = validateQuestion(entry);
+    let status: ImportStatus = messages.length > 0 ? 'invalid' : 'new';
+
+    if (seen.has(id)) {
+      messages.push('appears more than once in the import');
+      status = 'invalid';
+    }
+    seen.add(id);
+
+    const existing = byId.get(id);
+    const sameText = byText.get(toPlainText(entry.question).toLowerCase());
+    if (existing && !sameGold(existing.type, existing.gold, entry.gold)) {
+      messages.push(`gold "${entry.gold}" conflicts with "${existing.gold}" in the bank`);
+      status = 'conflict';
+    } else if (existing) {
+      if (existing.type !== entry.type) messages.push(`type ${entry.type} differs from ${existing.type} in the bank`);
+      if (toPlainText(existing.question) !== toPlainText(entry.question)) messages.push('question text differs from the bank');
+      if (status === 'new') status = 'duplicate';
+    } else if (sameText) {
+      messages.push(`same question text as ${sameText}`);
+      if (status === 'new') status = 'duplicate';
+    }
+    return { id, status, messages, entry };
+  });
+};
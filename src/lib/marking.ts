@@ -0,0 +1,170 @@
+import { GradableQuestion, isAnswerCorrect, normalizeOptions } from './grading';
+import { parsePaper } from './papers';
+
+export type MarkStatus = 'correct' | 'partial' | 'incorrect' | 'unattempted';
+
+export interface QuestionMark {
+  marks: number;
+  maxMarks: number;
+  status: MarkStatus;
+  hintUsed?: boolean;
+}
+
+export interface MarkingScheme {
+  name: string;
+  markQuestion: (question: GradableQuestion, answer: string[] | undefined) => QuestionMark;
+}
+
+export interface ScorableQuestion extends GradableQuestion {
+  description: string;
+}
+
+export interface ScoreSummary {
+  breakdown: QuestionMark[];
+  marks: number;
+  maxMarks: number;
+  correct: number;
+}
+
+export interface HintUsage {
+  // Positions of the questions whose hint was revealed
+  used: Record<number, boolean>;
+  // Fraction of a question's maximum marks deducted when its hint was used
+  penalty: number;
+}
+
+export const DEFAULT_HINT_PENALTY = 0.25;
+
+interface MarkValues {
+  correct: number;
+  wrong: number;
+}
+
+export interface JeeAdvancedSchemeConfig {
+  name: string;
+  single: MarkValues;
+  multiple: MarkValues & { partial: boolean };
+  integer: MarkValues;
+  numeric: MarkValues;
+}
+
+const isUnattempted = (answer: string[] | undefined) =>
+  !answer || answer.every((a) => a.trim() === '');
+
+const markAll = (values: MarkValues, correct: boolean): QuestionMark => ({
+  marks: correct ? values.correct : values.wrong,
+  maxMarks: values.correct,
+  status: correct ? 'correct' : 'incorrect',
+});
+
+// Partial marking: choosing k of the n correct options (and nothing else) earns k marks
+const markMultiple = (config: JeeAdvancedSchemeConfig['multiple'], question: GradableQuestion, answer: string[]): QuestionMark => {
+  const chosen = normalizeOptions(answer).split('');
+  const gold = normalizeOptions([question.gold]).split('');
+
+  if (chosen.some((option) => !gold.includes(option))) {
+    return { marks: config.wrong, maxMarks: config.correct, status: 'incorrect' };
+  }
+  if (chosen.length === gold.length) {
+    return { marks: config.correct, maxMarks: config.correct, status: 'correct' };
+  }
+  if (!config.partial) {
+    return { marks: config.wrong, maxMarks: config.correct, status: 'incorrect' };
+  }
+  return { marks: chosen.length, maxMarks: config.correct, status: 'partial' };
+};
+
+export const createJeeAdvancedScheme = (config: JeeAdvancedSchemeConfig): MarkingScheme => ({
+  name: config.name,
+  markQuestion: (question, answer) => {
+    const valuesByType: Record<string, MarkValues> = {
+      MCQ: config.single,
+      'MCQ(multiple)': config.multiple,
+      Integer: config.integer,
+      Numeric: config.numeric,
+    };
+    const values = valuesByType[question.type] ?? config.single;
+
+    if (isUnattempted(answer)) {
+      return { marks: 0, maxMarks: values.correct, status: 'unattempted' };
+    }
+    if (question.type === 'MCQ(multiple)') {
+      return markMultiple(config.multiple, question, answer!);
+    }
+    return markAll(values, isAnswerCorrect(question, answer));
+  },
+});
+
+export const JEE_ADVANCED_SCHEME = createJeeAdvancedScheme({
+  name: 'JEE Advanced',
+  single: { correct: 3, wrong: -1 },
+  multiple: { correct: 4, wrong: -2, partial: true },
+  integer: { correct: 3, wrong: 0 },
+  numeric: { correct: 3, wrong: 0 },
+});
+
+const markingSchemes: Record<string, MarkingScheme> = {
+  'JEE Adv 2016': createJeeAdvancedScheme({
+    name: 'JEE Advanced 2016',
+    single: { correct: 3, wrong: -1 },
+    multiple: { correct: 4, wrong: -2, partial: false },
+    integer: { correct: 3, wrong: 0 },
+    numeric: { correct: 3, wrong: 0 },
+  }),
+  'JEE Adv 2019': createJeeAdvancedScheme({
+    name: 'JEE Advanced 2019',
+    single: { correct: 3, wrong: -1 },
+    multiple: { correct: 4, wrong: -1, partial: true },
+    integer: { correct: 3, wrong: 0 },
+    numeric: { correct: 3, wrong: 0 },
+  }),
+  'JEE Adv 2020': createJeeAdvancedScheme({
+    name: 'JEE Advanced 2020',
+    single: { correct: 3, wrong: -1 },
+    multiple: { correct: 4, wrong: -2, partial: true },
+    integer: { correct: 3, wrong: 0 },
+    numeric: { correct: 4, wrong: 0 },
+  }),
+};
+
+// Schemes can be registered for a whole year ("JEE Adv 2016") or a single paper ("JEE Adv 2016 Paper 1")
+export const registerMarkingScheme = (key: string, scheme: MarkingScheme) => {
+  markingSchemes[key] = scheme;
+};
+
+export const getMarkingScheme = (description: string): MarkingScheme => {
+  if (markingSchemes[description]) return markingSchemes[description];
+
+  const paper = parsePaper(description);
+  if (paper) {
+    const yearKey = `${paper.exam} ${paper.year}`;
+    if (markingSchemes[yearKey]) return markingSchemes[yearKey];
+  }
+  return JEE_ADVANCED_SCHEME;
+};
+
+// Hints only reduce marks that were earned: a hinted question never scores below zero
+// because of the hint, and wrong answers keep the scheme's own negative marks
+export const applyHintPenalty = (mark: QuestionMark, penalty: number): QuestionMark => ({
+  ...mark,
+  marks: mark.marks > 0 ? Math.max(0, Math.round((mark.marks - penalty * mark.maxMarks) * 100) / 100) : mark.marks,
+  hintUsed: true,
+});
+
+export const scoreQuestions = (
+  questions: ScorableQuestion[],
+  answers: Record<number, string[]>,
+  hints?: HintUsage
+): ScoreSummary => {
+  const breakdown = questions.map((q, index) => {
+    const mark = getMarkingScheme(q.description).markQuestion(q, answers[index]);
+    return hints?.used[index] ? applyHintPenalty(mark, hints.penalty) : mark;
+  });
+
+  return {
+    breakdown,
+    marks: breakdown.reduce((acc, mark) => acc + mark.marks, 0),
+    maxMarks: breakdown.reduce((acc, mark) => acc + mark.maxMarks, 0),
+    correct: breakdown.filter((mark) => mark.status === 'correct').length,
+  };
+};
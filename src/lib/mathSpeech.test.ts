@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { texToSpeech } from './mathSpeech';
+
+describe('texToSpeech', () => {
+  it('reads roots with and without an index', () => {
+    expect(texToSpeech('\\sqrt{2}')).toBe('square root of 2');
+    expect(texToSpeech('\\sqrt[3]{x}')).toBe('cube root of x');
+  });
+
+  it('reads an unclosed root index to the end instead of looping', () => {
+    expect(texToSpeech('\\sqrt[')).toBe('square root of');
+    expect(texToSpeech('\\sqrt[n')).toBe('nth root of');
+  });
+});
@@ -0,0 +1,162 @@
+// Spoken form of LaTeX, used as the text alternative of rendered math for screen readers
+// that do not read MathML. It covers the notation in the question bank, not all of TeX.
+
+const GREEK = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta', 'iota', 'kappa',
+  'lambda', 'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'varphi', 'chi', 'psi', 'omega',
+  'Gamma', 'Delta', 'Theta', 'Lambda', 'Xi', 'Pi', 'Sigma', 'Phi', 'Psi', 'Omega',
+];
+
+const COMMAND_WORDS: Record<string, string> = {
+  ...Object.fromEntries(GREEK.map((letter) => [letter, letter.replace(/^var/, '')])),
+  times: 'times',
+  cdot: 'times',
+  div: 'divided by',
+  pm: 'plus or minus',
+  mp: 'minus or plus',
+  le: 'less than or equal to',
+  leq: 'less than or equal to',
+  ge: 'greater than or equal to',
+  geq: 'greater than or equal to',
+  ne: 'not equal to',
+  neq: 'not equal to',
+  approx: 'approximately equal to',
+  sim: 'similar to',
+  equiv: 'equivalent to',
+  propto: 'proportional to',
+  infty: 'infinity',
+  int: 'integral',
+  oint: 'contour integral',
+  sum: 'sum',
+  prod: 'product',
+  lim: 'limit',
+  to: 'tends to',
+  rightarrow: 'gives',
+  longrightarrow: 'gives',
+  Rightarrow: 'implies',
+  leftarrow: 'from',
+  leftrightarrow: 'if and only if',
+  rightleftharpoons: 'in equilibrium with',
+  partial: 'partial',
+  nabla: 'del',
+  hbar: 'h bar',
+  angle: 'angle',
+  perp: 'perpendicular to',
+  parallel: 'parallel to',
+  in: 'in',
+  cup: 'union',
+  cap: 'intersection',
+  subset: 'subset of',
+  circ: 'degrees',
+  ldots: 'dots',
+  cdots: 'dots',
+  dots: 'dots',
+  log: 'log',
+  ln: 'natural log',
+  exp: 'exponential',
+  sin: 'sine',
+  cos: 'cosine',
+  tan: 'tangent',
+  cot: 'cotangent',
+  sec: 'secant',
+  csc: 'cosecant',
+  max: 'maximum',
+  min: 'minimum',
+};
+
+// Commands that only style or size their argument
+const TRANSPARENT = new Set(['mathrm', 'text', 'textrm', 'mathbf', 'mathit', 'mathsf', 'boldsymbol', 'operatorname', 'displaystyle', 'left', 'right', 'big', 'Big', 'bigg', 'Bigg']);
+
+const ACCENTS: Record<string, string> = { vec: 'vector', hat: 'hat', bar: 'bar', overline: 'bar', dot: 'dot', ddot: 'double dot' };
+
+const SYMBOLS: Record<string, string> = {
+  '+': 'plus',
+  '-': 'minus',
+  '=': 'equals',
+  '<': 'less than',
+  '>': 'greater than',
+  '/': 'over',
+  "'": 'prime',
+};
+
+const POWERS: Record<string, string> = { '2': 'squared', '3': 'cubed', degrees: 'degrees' };
+
+export const texToSpeech = (tex: string): string => {
+  let position = 0;
+
+  const readCommand = () => {
+    const match = tex.slice(position).match(/^\\([a-zA-Z]+|.)/);
+    position += match ? match[0].length : 1;
+    return match ? match[1] : '';
+  };
+
+  // A braced group, a command or a single character
+  const readArgument = (): string => {
+    while (tex[position] === ' ') position++;
+    if (tex[position] === '{') {
+      let depth = 0;
+      const start = position;
+      do {
+        if (tex[position] === '\\') position++;
+        else if (tex[position] === '{') depth++;
+        else if (tex[position] === '}') depth--;
+        position++;
+      } while (depth > 0 && position < tex.length);
+      return texToSpeech(tex.slice(start + 1, position - 1));
+    }
+    if (tex[position] === '\\') return speakCommand(readCommand());
+    return speakCharacter(tex[position++] ?? '');
+  };
+
+  const speakCharacter = (character: string) => SYMBOLS[character] ?? character;
+
+  const speakCommand = (command: string): string => {
+    if (command === 'frac' || command === 'dfrac' || command === 'tfrac') {
+      const numerator = readArgument();
+      return `${numerator} over ${readArgument()},`;
+    }
+    if (command === 'sqrt') {
+      let index = '';
+      if (tex[position] === '[') {
+        // An unclosed index, e.g. while an author is still typing, runs to the end
+        const close = tex.indexOf(']', position);
+        const end = close === -1 ? tex.length : close;
+        index = tex.slice(position + 1, end);
+        position = end + 1;
+      }
+      const root = !index.trim() ? 'square root' : index.trim() === '3' ? 'cube root' : `${texToSpeech(index)}th root`;
+      return `${root} of ${readArgument()},`;
+    }
+    if (ACCENTS[command]) return `${ACCENTS[command]} ${readArgument()}`;
+    if (TRANSPARENT.has(command)) return tex[position] === '{' ? readArgument() : '';
+    return COMMAND_WORDS[command] ?? (/^[a-zA-Z]+$/.test(command) ? command : '');
+  };
+
+  const words: string[] = [];
+  while (position < tex.length) {
+    const character = tex[position];
+    if (character === '\\') {
+      words.push(speakCommand(readCommand()));
+    } else if (character === '^') {
+      position++;
+      const power = readArgument();
+      words.push(POWERS[power] ?? `to the power ${power},`);
+    } else if (character === '_') {
+      position++;
+      words.push(`sub ${readArgument()}`);
+    } else if (character === '{') {
+      words.push(readArgument());
+    } else if (/[0-9.]/.test(character)) {
+      const number = tex.slice(position).match(/^[0-9.]+/)![0];
+      words.push(number);
+      position += number.length;
+    } else if (character === '}') {
+      position++;
+    } else {
+      words.push(speakCharacter(character));
+      position++;
+    }
+  }
+
+  return words.join(' ').replace(/\s+/g, ' ').replace(/\s+,/g, ',').replace(/,+/g, ',').replace(/,\s*$/, '').trim();
+};
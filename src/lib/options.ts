@@ -0,0 +1,37 @@
+import { OptionLetter } from '../types/question';
+
+export const OPTION_LETTERS: OptionLetter[] = ['A', 'B', 'C', 'D'];
+
+export interface ParsedOptions {
+  stem: string;
+  options: Record<OptionLetter, string>;
+}
+
+// Option markers such as "(A)" at the start of a line
+const MARKER_PATTERN = /(?:^|\n)[ \t]*\(([A-D])\)[ \t]*/g;
+
+// Splits "(A) ... (B) ..." paragraphs off the question stem. Option bodies are kept as raw
+// text, so they can still contain display math or tables. Returns null when the question
+// doesn't contain exactly one clean A-D sequence at its end.
+export const parseOptions = (text: string): ParsedOptions | null => {
+  const markers = Array.from(text.matchAll(MARKER_PATTERN));
+
+  let first = -1;
+  for (let i = 0; i + OPTION_LETTERS.length <= markers.length; i++) {
+    if (OPTION_LETTERS.every((letter, offset) => markers[i + offset][1] === letter)) first = i;
+  }
+  if (first === -1 || first + OPTION_LETTERS.length !== markers.length) return null;
+
+  const sequence = markers.slice(first);
+  const stem = text.slice(0, sequence[0].index).trim();
+  if (!stem) return null;
+
+  const options = {} as Record<OptionLetter, string>;
+  sequence.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < sequence.length ? sequence[i + 1].index! : text.length;
+    options[OPTION_LETTERS[i]] = text.slice(start, end).trim();
+  });
+
+  return Object.values(options).every(Boolean) ? { stem, options } : null;
+};
@@ -0,0 +1,49 @@
+import { SUBJECTS } from './subjects';
+
+export interface PaperInfo {
+  exam: string;
+  year: number;
+  paper: number;
+}
+
+const PAPER_PATTERN = /^(.*?)\s*(\d{4})\s+Paper\s+(\d+)$/i;
+
+// Parses descriptions such as "JEE Adv 2022 Paper 2"
+export const parsePaper = (description: string): PaperInfo | null => {
+  const match = description.trim().match(PAPER_PATTERN);
+  if (!match) return null;
+  return {
+    exam: match[1],
+    year: parseInt(match[2], 10),
+    paper: parseInt(match[3], 10),
+  };
+};
+
+export const PAPER_DURATION_MS = 3 * 60 * 60 * 1000;
+
+interface PaperQuestion {
+  description: string;
+  index: number;
+  subject: string;
+}
+
+export const listPapers = (questions: Pick<PaperQuestion, 'description'>[]): string[] =>
+  Array.from(new Set(questions.map((q) => q.description)))
+    .filter((description) => parsePaper(description) !== null)
+    .sort((a, b) => {
+      const pa = parsePaper(a)!;
+      const pb = parsePaper(b)!;
+      return pb.year - pa.year || pa.paper - pb.paper;
+    });
+
+// All questions of a paper in original order, grouped into subject sections
+export const getPaperQuestions = <T extends PaperQuestion>(questions: T[], description: string): T[] => {
+  const sectionOrder = (subject: string) => {
+    const position = SUBJECTS.findIndex((s) => s.id === subject);
+    return position === -1 ? SUBJECTS.length : position;
+  };
+
+  return questions
+    .filter((q) => q.description === description)
+    .sort((a, b) => sectionOrder(a.subject) - sectionOrder(b.subject) || a.index - b.index);
+};
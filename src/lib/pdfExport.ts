@@ -0,0 +1,365 @@
+import jsPDF from 'jspdf';
+import html2canvas from 'html2canvas';
+import { Fragment, createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Question } from '../types/question';
+import { QuestionMark } from './marking';
+import { InlineItem, LineMetrics, layoutInline } from './pdfLayout';
+import { parseMathBlocks, renderMathBlock, renderTex } from './renderMath';
+
+// A4 portrait, all sizes in mm
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const HEADER_HEIGHT = 12;
+const FOOTER_HEIGHT = 8;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const CONTENT_TOP = MARGIN + HEADER_HEIGHT;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+
+const PX_PER_MM = 96 / 25.4;
+const PT_TO_MM = 25.4 / 72;
+const LINE_HEIGHT = 1.35;
+const BODY_FONT_SIZE = 11;
+// Images of math are rendered at the body font size so they line up with the PDF text around them
+const BODY_FONT_PX = (BODY_FONT_SIZE * 96) / 72;
+// Math fragments are rasterized at this multiple of screen resolution
+const MATH_SCALE = 3;
+
+type Color = [number, number, number];
+
+type Block =
+  | { kind: 'text'; lines: string[]; fontSize: number; bold: boolean; color: Color; height: number }
+  | { kind: 'image'; data: string; width: number; height: number }
+  // One line of body text with math images on its baseline; x and top are relative to the line
+  | {
+      kind: 'line';
+      texts: { text: string; x: number }[];
+      images: { data: string; x: number; top: number; width: number; height: number }[];
+      ascent: number;
+      height: number;
+    }
+  | { kind: 'space'; height: number };
+
+const BLACK: Color = [17, 24, 39];
+const GREY: Color = [107, 114, 128];
+const STATUS_COLORS: Record<QuestionMark['status'], Color> = {
+  correct: [22, 163, 74],
+  partial: [217, 119, 6],
+  incorrect: [220, 38, 38],
+  unattempted: [107, 114, 128],
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const textBlock = (
+  pdf: jsPDF,
+  text: string,
+  { fontSize = BODY_FONT_SIZE, bold = false, color = BLACK }: { fontSize?: number; bold?: boolean; color?: Color } = {}
+): Block => {
+  pdf.setFont('helvetica', bold ? 'bold' : 'normal');
+  pdf.setFontSize(fontSize);
+  const lines: string[] = pdf.splitTextToSize(text, CONTENT_WIDTH);
+  return { kind: 'text', lines, fontSize, bold, color, height: lines.length * fontSize * PT_TO_MM * LINE_HEIGHT };
+};
+
+const space = (height: number): Block => ({ kind: 'space', height });
+
+interface MathFragment {
+  html: string;
+  // Display math and tables take the full width; inline fragments sit on the text baseline
+  block: boolean;
+}
+
+interface Raster {
+  data: string;
+  width: number;
+  height: number;
+  ascent: number;
+}
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Renders every fragment of a question through the same KaTeX pipeline as the app in one off-screen
+// container, captures it once and crops each fragment out of the capture
+const rasterize = async (fragments: MathFragment[]): Promise<Raster[]> => {
+  if (fragments.length === 0) return [];
+  const container = document.createElement('div');
+  container.style.cssText = `position:absolute;left:-10000px;top:0;width:${CONTENT_WIDTH * PX_PER_MM}px;` +
+    `font-size:${BODY_FONT_PX}px;color:#111827;background:#ffffff;`;
+  container.innerHTML = fragments
+    .map(({ html, block }) =>
+      block
+        ? `<div data-fragment>${html}</div>`
+        : '<div><span data-fragment style="display:inline-block;padding:2px;white-space:nowrap">' +
+          `${html}<span data-baseline style="display:inline-block;width:0;height:0"></span></span></div>`
+    )
+    .join('');
+  document.body.appendChild(container);
+
+  try {
+    const canvas = await html2canvas(container, { scale: MATH_SCALE, backgroundColor: '#ffffff', logging: false });
+    const origin = container.getBoundingClientRect();
+    return Array.from(container.querySelectorAll<HTMLElement>('[data-fragment]')).map((element) => {
+      const rect = element.getBoundingClientRect();
+      const baseline = element.querySelector('[data-baseline]')?.getBoundingClientRect().top ?? rect.bottom;
+      const crop = document.createElement('canvas');
+      crop.width = Math.max(1, Math.ceil(rect.width * MATH_SCALE));
+      crop.height = Math.max(1, Math.ceil(rect.height * MATH_SCALE));
+      crop.getContext('2d')!.drawImage(
+        canvas,
+        (rect.left - origin.left) * MATH_SCALE,
+        (rect.top - origin.top) * MATH_SCALE,
+        crop.width,
+        crop.height,
+        0,
+        0,
+        crop.width,
+        crop.height
+      );
+      return {
+        data: crop.toDataURL('image/png'),
+        width: rect.width / PX_PER_MM,
+        height: rect.height / PX_PER_MM,
+        ascent: (baseline - rect.top) / PX_PER_MM,
+      };
+    });
+  } finally {
+    document.body.removeChild(container);
+  }
+};
+
+// Shrinks an image to fit within the given size, keeping its proportions
+const fitRaster = (raster: Raster, maxWidth: number, maxHeight: number): Raster => {
+  const scale = Math.min(1, maxWidth / raster.width, maxHeight / raster.height);
+  return { ...raster, width: raster.width * scale, height: raster.height * scale, ascent: raster.ascent * scale };
+};
+
+// Typographic punctuation the built-in PDF fonts lack, written the way it is typed
+const PLAIN_EQUIVALENTS: Record<string, string> = {
+  '\u2018': "'",
+  '\u2019': "'",
+  '\u201c': '"',
+  '\u201d': '"',
+  '\u2013': '-',
+  '\u2014': '-',
+  '\u2212': '-',
+  '\u2026': '...',
+  '\u00a0': ' ',
+  '\t': ' ',
+};
+
+type InlineRun = { kind: 'text'; text: string } | { kind: 'fragment'; html: string };
+
+// Prose becomes PDF text; math and characters outside the built-in fonts (Latin-1) become images
+const inlineRuns = (line: string): InlineRun[] =>
+  line.split('$').flatMap((part, index): InlineRun[] => {
+    if (index % 2 === 1) return part.trim() ? [{ kind: 'fragment', html: renderTex(part, false) }] : [];
+    const prose = part.replace(/[\u2018\u2019\u201c\u201d\u2013\u2014\u2212\u2026\u00a0\t]/g, (char) => PLAIN_EQUIVALENTS[char]);
+    return (prose.match(/[\x20-\x7e\xa1-\xff]+|[^\x20-\x7e\xa1-\xff]+/g) ?? []).map((run) =>
+      /^[\x20-\x7e\xa1-\xff]/.test(run)
+        ? { kind: 'text', text: run }
+        : { kind: 'fragment', html: `<span style="font-family:Helvetica,Arial,sans-serif">${escapeHtml(run)}</span>` }
+    );
+  });
+
+const questionBodyBlocks = async (pdf: jsPDF, text: string): Promise<Block[]> => {
+  const parsed = parseMathBlocks(text).map((block) => ({ block, runs: block.kind === 'text' ? inlineRuns(block.content) : [] }));
+  const fragments = parsed.flatMap(({ block, runs }): MathFragment[] =>
+    block.kind === 'text'
+      ? runs.flatMap((run) => (run.kind === 'fragment' ? [{ html: run.html, block: false }] : []))
+      : [{ html: renderToStaticMarkup(createElement(Fragment, null, renderMathBlock(block, 0))), block: true }]
+  );
+  const rasters = await rasterize(fragments);
+
+  pdf.setFont('helvetica', 'normal');
+  pdf.setFontSize(BODY_FONT_SIZE);
+  const lineHeight = BODY_FONT_SIZE * PT_TO_MM * LINE_HEIGHT;
+  const ascent = BODY_FONT_SIZE * PT_TO_MM * (0.8 + (LINE_HEIGHT - 1) / 2);
+  const metrics: LineMetrics = {
+    maxWidth: CONTENT_WIDTH,
+    ascent,
+    descent: lineHeight - ascent,
+    measure: (run) => pdf.getTextWidth(run),
+  };
+
+  let next = 0;
+  const blocks: Block[] = [];
+  for (const { block, runs } of parsed) {
+    if (block.kind !== 'text') {
+      const { data, width, height } = fitRaster(rasters[next++], CONTENT_WIDTH, CONTENT_BOTTOM - CONTENT_TOP);
+      blocks.push({ kind: 'image', data, width, height });
+    } else {
+      const images: Raster[] = [];
+      const items: InlineItem[] = runs.map((run) => {
+        if (run.kind === 'text') return run;
+        const raster = fitRaster(rasters[next++], CONTENT_WIDTH, CONTENT_BOTTOM - CONTENT_TOP);
+        images.push(raster);
+        return { kind: 'box', id: images.length - 1, width: raster.width, ascent: raster.ascent, descent: raster.height - raster.ascent };
+      });
+      layoutInline(items, metrics).forEach((line) =>
+        blocks.push({
+          kind: 'line',
+          texts: line.items.flatMap((item) => (item.kind === 'text' ? [{ text: item.text, x: item.x }] : [])),
+          images: line.items.flatMap((item) => {
+            if (item.kind !== 'box') return [];
+            const { data, width, height, ascent: imageAscent } = images[item.id];
+            return [{ data, x: item.x, top: line.ascent - imageAscent, width, height }];
+          }),
+          ascent: line.ascent,
+          height: line.ascent + line.descent,
+        })
+      );
+    }
+    blocks.push(space(1.5));
+  }
+  return blocks;
+};
+
+const createLayout = (pdf: jsPDF, title: string, subtitle: string) => {
+  let y = CONTENT_TOP;
+
+  const drawHeader = () => {
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(12);
+    pdf.setTextColor(...BLACK);
+    pdf.text(title, MARGIN, MARGIN, { baseline: 'top' });
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(...GREY);
+    pdf.text(subtitle, PAGE_WIDTH - MARGIN, MARGIN + 1, { baseline: 'top', align: 'right' });
+    pdf.setDrawColor(229, 231, 235);
+    pdf.line(MARGIN, MARGIN + HEADER_HEIGHT - 4, PAGE_WIDTH - MARGIN, MARGIN + HEADER_HEIGHT - 4);
+  };
+
+  const newPage = () => {
+    pdf.addPage();
+    drawHeader();
+    y = CONTENT_TOP;
+  };
+
+  const drawBlock = (block: Block) => {
+    if (y + block.height > CONTENT_BOTTOM && y > CONTENT_TOP) {
+      newPage();
+      if (block.kind === 'space') return;
+    }
+    if (block.kind === 'text') {
+      pdf.setFont('helvetica', block.bold ? 'bold' : 'normal');
+      pdf.setFontSize(block.fontSize);
+      pdf.setTextColor(...block.color);
+      const lineHeight = block.fontSize * PT_TO_MM * LINE_HEIGHT;
+      block.lines.forEach((line, i) => pdf.text(line, MARGIN, y + i * lineHeight, { baseline: 'top' }));
+    } else if (block.kind === 'line') {
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(BODY_FONT_SIZE);
+      pdf.setTextColor(...BLACK);
+      block.texts.forEach(({ text, x }) => pdf.text(text, MARGIN + x, y + block.ascent, { baseline: 'alphabetic' }));
+      block.images.forEach(({ data, x, top, width, height }) =>
+        pdf.addImage(data, 'PNG', MARGIN + x, y + top, width, height, undefined, 'FAST')
+      );
+    } else if (block.kind === 'image') {
+      pdf.addImage(block.data, 'PNG', MARGIN, y, block.width, block.height, undefined, 'FAST');
+    }
+    y += block.height;
+  };
+
+  // Keeps a question together on one page when it fits, otherwise lets it flow
+  const addGroup = (blocks: Block[]) => {
+    const height = blocks.reduce((acc, block) => acc + block.height, 0);
+    if (y + height > CONTENT_BOTTOM && height <= CONTENT_BOTTOM - CONTENT_TOP && y > CONTENT_TOP) {
+      newPage();
+    }
+    blocks.forEach(drawBlock);
+  };
+
+  const finish = () => {
+    const pages = pdf.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      pdf.setPage(page);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(9);
+      pdf.setTextColor(...GREY);
+      pdf.text(`Page ${page} of ${pages}`, PAGE_WIDTH / 2, PAGE_HEIGHT - MARGIN, { align: 'center' });
+    }
+  };
+
+  drawHeader();
+  return { addGroup, newPage, finish };
+};
+
+const formatAnswer = (question: Question, answer: string[]) =>
+  answer.length === 0 ? 'No answer provided' : question.type === 'MCQ(multiple)' ? answer.join(', ') : answer[0];
+
+const formatGold = (question: Question) =>
+  question.type === 'MCQ(multiple)' ? question.gold.split('').join(', ') : question.gold;
+
+const STATUS_LABELS: Record<QuestionMark['status'], string> = {
+  correct: 'Correct',
+  partial: 'Partially correct',
+  incorrect: 'Incorrect',
+  unattempted: 'Not attempted',
+};
+
+export interface ReviewPdfInput {
+  questions: Question[];
+  answers: Record<number, string[]>;
+  timePerQuestion: Record<number, number>;
+  breakdown: QuestionMark[];
+  marks: number;
+  maxMarks: number;
+}
+
+export const exportReviewPdf = async ({ questions, answers, timePerQuestion, breakdown, marks, maxMarks }: ReviewPdfInput) => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const layout = createLayout(pdf, 'JEE Question Bank - Review', `Score: ${marks} / ${maxMarks}  |  ${today()}`);
+
+  for (const [index, q] of questions.entries()) {
+    const mark = breakdown[index];
+    const time = ((timePerQuestion[index] ?? 0) / 1000).toFixed(1);
+    const signedMarks = mark.marks > 0 ? `+${mark.marks}` : `${mark.marks}`;
+    const solution = q.solution
+      ? [space(3), textBlock(pdf, 'Solution', { fontSize: 10, bold: true, color: GREY }), ...(await questionBodyBlocks(pdf, q.solution))]
+      : [];
+
+    layout.addGroup([
+      textBlock(pdf, `Question ${index + 1}  (${q.description}, Q${q.index}, ${q.type})`, { fontSize: 12, bold: true }),
+      textBlock(pdf, `${STATUS_LABELS[mark.status]}  |  Marks: ${signedMarks} / ${mark.maxMarks}${mark.hintUsed ? ' (hint used)' : ''}  |  Time spent: ${time}s`, {
+        fontSize: 10,
+        color: STATUS_COLORS[mark.status],
+      }),
+      space(2),
+      ...(await questionBodyBlocks(pdf, q.question)),
+      textBlock(pdf, `Your answer: ${formatAnswer(q, answers[index] ?? [])}    Correct answer: ${formatGold(q)}`, { bold: true }),
+      ...solution,
+      space(8),
+    ]);
+  }
+
+  layout.finish();
+  pdf.save(`quiz-review-${today()}.pdf`);
+};
+
+// Blank worksheet followed by an answer key on separate pages
+export const exportQuestionPaperPdf = async (title: string, questions: Question[]) => {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const layout = createLayout(pdf, `JEE Question Bank - ${title}`, `${questions.length} questions  |  ${today()}`);
+
+  for (const [index, q] of questions.entries()) {
+    layout.addGroup([
+      textBlock(pdf, `Question ${index + 1}  (${q.type})`, { fontSize: 12, bold: true }),
+      space(2),
+      ...(await questionBodyBlocks(pdf, q.question)),
+      textBlock(pdf, 'Answer: ______________________', { color: GREY }),
+      space(8),
+    ]);
+  }
+
+  layout.newPage();
+  layout.addGroup([textBlock(pdf, 'Answer Key', { fontSize: 14, bold: true }), space(3)]);
+  questions.forEach((q, index) =>
+    layout.addGroup([textBlock(pdf, `${index + 1}.  ${formatGold(q)}    (${q.description}, Q${q.index})`, { fontSize: 10 })])
+  );
+
+  layout.finish();
+  pdf.save(`question-paper-${today()}.pdf`);
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { InlineItem, LineMetrics, layoutInline } from './pdfLayout';
+
+// One mm per character keeps the arithmetic readable
+const metrics: LineMetrics = { maxWidth: 12, ascent: 3, descent: 1, measure: (text) => text.length };
+
+const box = (id: number, width: number, ascent = 2, descent = 1): InlineItem => ({ kind: 'box', id, width, ascent, descent });
+
+describe('layoutInline', () => {
+  it('wraps words and keeps each line as one string', () => {
+    const lines = layoutInline([{ kind: 'text', text: '  the quick brown fox' }], metrics);
+    expect(lines.map((line) => line.items)).toEqual([
+      [{ kind: 'text', text: 'the quick ', x: 0 }],
+      [{ kind: 'text', text: 'brown fox', x: 0 }],
+    ]);
+  });
+
+  it('places math boxes between text and grows the line around them', () => {
+    const lines = layoutInline(
+      [{ kind: 'text', text: 'let ' }, box(0, 3, 5, 2), { kind: 'text', text: ' be' }],
+      metrics
+    );
+    expect(lines).toEqual([
+      {
+        items: [
+          { kind: 'text', text: 'let ', x: 0 },
+          { kind: 'box', id: 0, x: 4 },
+          { kind: 'text', text: ' be', x: 7 },
+        ],
+        width: 10,
+        ascent: 5,
+        descent: 2,
+      },
+    ]);
+  });
+
+  it('does not break between math and the punctuation after it', () => {
+    const lines = layoutInline([{ kind: 'text', text: 'where value ' }, box(0, 4), { kind: 'text', text: ', so' }], metrics);
+    expect(lines[1].items).toEqual([
+      { kind: 'box', id: 0, x: 0 },
+      { kind: 'text', text: ', so', x: 4 },
+    ]);
+  });
+
+  it('splits a word longer than the line', () => {
+    const lines = layoutInline([{ kind: 'text', text: 'abcdefghijklmnopq' }], metrics);
+    expect(lines.map((line) => line.items.map((item) => item.kind === 'text' && item.text))).toEqual([
+      ['abcdefghijkl'],
+      ['mnopq'],
+    ]);
+  });
+
+  it('returns no lines for blank text', () => {
+    expect(layoutInline([{ kind: 'text', text: '   ' }], metrics)).toEqual([]);
+  });
+});
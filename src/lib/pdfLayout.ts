@@ -0,0 +1,120 @@
+// Greedy line breaking for PDF paragraphs that mix text with images of math, in mm
+
+export type InlineItem =
+  | { kind: 'text'; text: string }
+  // An image placed on the baseline; id refers back to the caller's list of images
+  | { kind: 'box'; id: number; width: number; ascent: number; descent: number };
+
+export type PlacedItem =
+  | { kind: 'text'; text: string; x: number }
+  | { kind: 'box'; id: number; x: number };
+
+export interface InlineLine {
+  items: PlacedItem[];
+  width: number;
+  ascent: number;
+  descent: number;
+}
+
+export interface LineMetrics {
+  maxWidth: number;
+  // Space a line of plain text takes above and below its baseline
+  ascent: number;
+  descent: number;
+  measure: (text: string) => number;
+}
+
+// Pieces with no whitespace between them, e.g. "$x$," stay on one line
+interface Word {
+  parts: InlineItem[];
+  spaceAfter: boolean;
+}
+
+const splitWords = (items: InlineItem[]): Word[] => {
+  const words: Word[] = [];
+  let current: Word = { parts: [], spaceAfter: false };
+
+  const add = (part: InlineItem) => {
+    if (current.spaceAfter) {
+      words.push(current);
+      current = { parts: [], spaceAfter: false };
+    }
+    current.parts.push(part);
+  };
+
+  items.forEach((item) => {
+    if (item.kind === 'box') {
+      add(item);
+      return;
+    }
+    (item.text.match(/\s+|\S+/g) ?? []).forEach((token) => {
+      if (!/^\s/.test(token)) add({ kind: 'text', text: token });
+      // Leading whitespace of a paragraph is dropped
+      else if (current.parts.length > 0) current.spaceAfter = true;
+    });
+  });
+  if (current.parts.length > 0) words.push(current);
+  return words;
+};
+
+const partWidth = (part: InlineItem, measure: LineMetrics['measure']) =>
+  part.kind === 'box' ? part.width : measure(part.text);
+
+// A single word wider than the line is split between characters
+const splitLongWord = (word: Word, { maxWidth, measure }: LineMetrics): Word[] => {
+  const [part] = word.parts;
+  if (word.parts.length !== 1 || part.kind !== 'text' || measure(part.text) <= maxWidth) return [word];
+
+  const pieces: Word[] = [];
+  let text = '';
+  for (const char of part.text) {
+    if (text && measure(text + char) > maxWidth) {
+      pieces.push({ parts: [{ kind: 'text', text }], spaceAfter: false });
+      text = '';
+    }
+    text += char;
+  }
+  pieces.push({ parts: [{ kind: 'text', text }], spaceAfter: word.spaceAfter });
+  return pieces;
+};
+
+export const layoutInline = (items: InlineItem[], metrics: LineMetrics): InlineLine[] => {
+  const { maxWidth, measure } = metrics;
+  const spaceWidth = measure(' ');
+  const lines: InlineLine[] = [];
+  let line: InlineLine = { items: [], width: 0, ascent: metrics.ascent, descent: metrics.descent };
+
+  // Consecutive text is drawn as one string, so it selects and searches as a phrase
+  const appendText = (text: string, x: number) => {
+    const last = line.items[line.items.length - 1];
+    if (last?.kind === 'text') last.text += text;
+    else line.items.push({ kind: 'text', text, x });
+  };
+
+  splitWords(items)
+    .flatMap((word) => splitLongWord(word, metrics))
+    .forEach((word) => {
+      const width = word.parts.reduce((acc, part) => acc + partWidth(part, measure), 0);
+      if (line.items.length > 0 && line.width + width > maxWidth) {
+        lines.push(line);
+        line = { items: [], width: 0, ascent: metrics.ascent, descent: metrics.descent };
+      }
+      word.parts.forEach((part) => {
+        if (part.kind === 'text') {
+          appendText(part.text, line.width);
+        } else {
+          line.items.push({ kind: 'box', id: part.id, x: line.width });
+          line.ascent = Math.max(line.ascent, part.ascent);
+          line.descent = Math.max(line.descent, part.descent);
+        }
+        line.width += partWidth(part, measure);
+      });
+      if (word.spaceAfter) {
+        appendText(' ', line.width);
+        line.width += spaceWidth;
+      }
+    });
+
+  if (line.items.length > 0) lines.push(line);
+  return lines;
+};
@@ -0,0 +1,57 @@
+import { Question, QuestionType, SubjectId } from '../types/question';
+import { parsePaper } from './papers';
+import { sample } from './sampling';
+import { getQuestionTopic } from './topics';
+
+export const DEFAULT_SESSION_SIZE = 20;
+
+export interface PracticeFilters {
+  subjects: SubjectId[];
+  yearFrom: number;
+  yearTo: number;
+  // Paper numbers within a year, e.g. [1, 2]
+  papers: number[];
+  types: QuestionType[];
+  // Topic ids; empty or missing means every topic
+  topics?: string[];
+  count: number;
+}
+
+export interface BankFacets {
+  years: number[];
+  papers: number[];
+}
+
+export const getBankFacets = (questions: Pick<Question, 'description'>[]): BankFacets => {
+  const parsed = questions.map((q) => parsePaper(q.description)).filter((p) => p !== null);
+  return {
+    years: Array.from(new Set(parsed.map((p) => p.year))).sort((a, b) => a - b),
+    papers: Array.from(new Set(parsed.map((p) => p.paper))).sort((a, b) => a - b),
+  };
+};
+
+export const filterQuestions = (questions: Question[], filters: Omit<PracticeFilters, 'count'>): Question[] =>
+  questions.filter((q) => {
+    const paper = parsePaper(q.description);
+    return (
+      filters.subjects.includes(q.subject) &&
+      filters.types.includes(q.type) &&
+      paper !== null &&
+      paper.year >= filters.yearFrom &&
+      paper.year <= filters.yearTo &&
+      filters.papers.includes(paper.paper) &&
+      (!filters.topics?.length || filters.topics.includes(getQuestionTopic(q)))
+    );
+  });
+
+export const buildSubjectSet = (
+  questions: Question[],
+  subject: SubjectId,
+  random: () => number = Math.random
+): Question[] => sample(questions.filter((q) => q.subject === subject), DEFAULT_SESSION_SIZE, random);
+
+export const buildPracticeSet = (
+  questions: Question[],
+  filters: PracticeFilters,
+  random: () => number = Math.random
+): Question[] => sample(filterQuestions(questions, filters), filters.count, random);
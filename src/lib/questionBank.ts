@@ -0,0 +1,84 @@
+import { chunks, loadChunk } from 'virtual:question-bank';
+import { Question, SubjectId } from '../types/question';
+import { parsePaper } from './papers';
+import { QuizUrlState } from './urlState';
+import { questionId, validateQuestionBank } from './validation';
+
+// One paper's questions for one subject; the manifest of chunks ships with the app, their questions load on demand
+export interface BankChunk {
+  description: string;
+  subject: SubjectId;
+  indices: number[];
+  // Where each question sits in quiz.json, aligned with indices
+  positions: number[];
+}
+
+// Subjects are checked when each chunk is validated
+export const bankManifest = chunks as BankChunk[];
+
+const loadedChunks = new Map<BankChunk, Promise<Question[]>>();
+const questionsById = new Map<string, Question>();
+const positions = new Map<Question, number>();
+const knownIds = new Set(bankManifest.flatMap((chunk) => chunk.indices.map((index) => `${chunk.description}#${index}`)));
+
+const fetchChunk = async (chunk: BankChunk): Promise<Question[]> => {
+  const { questions, issues } = validateQuestionBank({ questions: await loadChunk(bankManifest.indexOf(chunk)) });
+  if (issues.length > 0) {
+    console.warn(`Skipped ${issues.length} invalid entries of ${chunk.description} (${chunk.subject}); run "npm run validate:quiz" for details`);
+  }
+  questions.forEach((q) => {
+    questionsById.set(questionId(q), q);
+    positions.set(q, chunk.positions[chunk.indices.indexOf(q.index)]);
+  });
+  return questions;
+};
+
+// Failed loads are forgotten so they can be retried
+const ensureChunk = (chunk: BankChunk): Promise<Question[]> => {
+  if (!loadedChunks.has(chunk)) {
+    loadedChunks.set(chunk, fetchChunk(chunk).catch((error: unknown) => {
+      loadedChunks.delete(chunk);
+      throw error;
+    }));
+  }
+  return loadedChunks.get(chunk)!;
+};
+
+// Questions always come back in quiz.json order, so seeded sets are the same however many chunks are loaded
+export const loadQuestions = async (include: (chunk: BankChunk) => boolean = () => true): Promise<Question[]> =>
+  (await Promise.all(bankManifest.filter(include).map(ensureChunk)))
+    .flat()
+    .sort((a, b) => positions.get(a)! - positions.get(b)!);
+
+// Whether the bank has the question, without loading it
+export const hasQuestion = (id: string) => knownIds.has(id);
+
+// Only questions from chunks that have already loaded are found
+export const getQuestionById = (id: string): Question | undefined => questionsById.get(id);
+
+// Ids that no longer exist in the bank are dropped
+export const loadQuestionsById = async (ids: string[]): Promise<Question[]> => {
+  const descriptions = new Set(ids.map((id) => id.slice(0, id.lastIndexOf('#'))));
+  await loadQuestions((chunk) => descriptions.has(chunk.description));
+  return ids.map(getQuestionById).filter((q): q is Question => q !== undefined);
+};
+
+// Only the chunks a shared link can draw from
+export const loadQuestionsForUrl = (state: QuizUrlState): Promise<Question[]> => {
+  if (state.id) return loadQuestionsById([state.id]);
+  if (state.paper) return loadQuestions((chunk) => chunk.description === state.paper);
+  const { filters, subject } = state;
+  if (filters) {
+    return loadQuestions((chunk) => {
+      const paper = parsePaper(chunk.description);
+      return (
+        filters.subjects.includes(chunk.subject) &&
+        paper !== null &&
+        paper.year >= filters.yearFrom &&
+        paper.year <= filters.yearTo &&
+        filters.papers.includes(paper.paper)
+      );
+    });
+  }
+  return loadQuestions((chunk) => chunk.subject === subject);
+};
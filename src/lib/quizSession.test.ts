@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { SavedSession } from './history';
+import { QuizAction, QuizSessionState, initialQuizSession, quizSessionReducer, timeSpentOn, toSavedSession } from './quizSession';
+import { Question } from '../types/question';
+
+const question = (index: number, type: 'Numeric' | 'MCQ(multiple)' = 'Numeric'): Question => ({
+  description: 'JEE Adv 2019 Paper 1',
+  index,
+  subject: 'phy',
+  type,
+  gold: type === 'Numeric' ? '1' : 'AB',
+  question: `Question ${index}`,
+});
+
+const saved: SavedSession = {
+  selectedSubject: 'phy',
+  selectedPaper: null,
+  deadline: null,
+  startTime: null,
+  questionIds: [],
+  currentQuestion: 0,
+  answers: {},
+  timePerQuestion: {},
+};
+
+const run = (state: QuizSessionState, ...actions: QuizAction[]) => actions.reduce(quizSessionReducer, state);
+
+const started = (questions = [question(1), question(2, 'MCQ(multiple)')]) =>
+  run(initialQuizSession, { type: 'start', session: saved, questions, now: 1000 });
+
+describe('start', () => {
+  it('opens the saved question and marks it visited', () => {
+    const state = run(initialQuizSession, {
+      type: 'start',
+      session: { ...saved, currentQuestion: 1 },
+      questions: [question(1), question(2)],
+      now: 1000,
+    });
+    expect(state.phase).toBe('answering');
+    expect(state.currentQuestion).toBe(1);
+    expect(state.startTime).toBe(1000);
+    expect(state.visited).toEqual({ 1: true });
+  });
+
+  it('stays idle without questions', () => {
+    expect(run(initialQuizSession, { type: 'start', session: saved, questions: [], now: 0 })).toBe(initialQuizSession);
+  });
+});
+
+describe('time per question', () => {
+  it('is not reset by typing a numeric answer keystroke by keystroke', () => {
+    const state = run(
+      started(),
+      { type: 'answer', answer: '1' },
+      { type: 'answer', answer: '1.' },
+      { type: 'answer', answer: '1.5' },
+      { type: 'navigate', index: 1, now: 6000 }
+    );
+    expect(state.answers[0]).toEqual(['1.5']);
+    expect(state.timePerQuestion[0]).toBe(5000);
+  });
+
+  it('is recorded for multiple-choice answers', () => {
+    const state = run(
+      started(),
+      { type: 'navigate', index: 1, now: 2000 },
+      { type: 'toggleOption', option: 'B' },
+      { type: 'toggleOption', option: 'A' },
+      { type: 'navigate', index: 0, now: 5000 }
+    );
+    expect(state.answers[1]).toEqual(['A', 'B']);
+    expect(state.timePerQuestion[1]).toBe(3000);
+  });
+
+  it('accumulates across revisits', () => {
+    const state = run(
+      started(),
+      { type: 'navigate', index: 1, now: 3000 },
+      { type: 'navigate', index: 0, now: 4000 },
+      { type: 'navigate', index: 1, now: 8000 }
+    );
+    expect(state.timePerQuestion).toEqual({ 0: 6000, 1: 1000 });
+    expect(timeSpentOn(state, 1, 8500)).toBe(1500);
+  });
+
+  it('excludes time while paused', () => {
+    const state = run(
+      started(),
+      { type: 'pause', now: 2000 },
+      { type: 'resume', now: 9000 },
+      { type: 'submit', now: 10000 }
+    );
+    expect(state.timePerQuestion[0]).toBe(2000);
+  });
+});
+
+describe('phases', () => {
+  it('moves from answering to submitted and between submitted and review', () => {
+    const submitted = run(started(), { type: 'submit', now: 2000 });
+    expect(submitted.phase).toBe('submitted');
+    expect(submitted.timePerQuestion[0]).toBe(1000);
+    expect(run(submitted, { type: 'review' }).phase).toBe('review');
+    expect(run(submitted, { type: 'review' }, { type: 'closeReview' }).phase).toBe('submitted');
+    expect(run(submitted, { type: 'reset' })).toBe(initialQuizSession);
+  });
+
+  it('can submit while paused', () => {
+    expect(run(started(), { type: 'pause', now: 2000 }, { type: 'submit', now: 3000 }).phase).toBe('submitted');
+  });
+
+  it('ignores answers and navigation outside answering', () => {
+    const paused = run(started(), { type: 'pause', now: 2000 });
+    const actions: QuizAction[] = [
+      { type: 'answer', answer: '2' },
+      { type: 'toggleOption', option: 'A' },
+      { type: 'clear' },
+      { type: 'mark', marked: true },
+      { type: 'useHint' },
+      { type: 'navigate', index: 1, now: 3000 },
+      { type: 'append', question: question(3), ability: { rating: 1600, count: 1 }, now: 3000 },
+    ];
+    actions.forEach((action) => expect(quizSessionReducer(paused, action)).toBe(paused));
+
+    const submitted = run(started(), { type: 'submit', now: 2000 });
+    actions.forEach((action) => expect(quizSessionReducer(submitted, action)).toBe(submitted));
+    expect(run(initialQuizSession, { type: 'review' })).toBe(initialQuizSession);
+  });
+});
+
+describe('toSavedSession', () => {
+  it('round-trips through start', () => {
+    const questions = [question(1), question(2)];
+    const state = run(started(questions), { type: 'answer', answer: '4' }, { type: 'navigate', index: 1, now: 2000 });
+    const session = toSavedSession(state);
+    expect(session.questionIds).toEqual(['JEE Adv 2019 Paper 1#1', 'JEE Adv 2019 Paper 1#2']);
+    const restored = run(initialQuizSession, { type: 'start', session, questions, now: 5000 });
+    expect(restored.answers).toEqual(state.answers);
+    expect(restored.timePerQuestion).toEqual(state.timePerQuestion);
+    expect(restored.currentQuestion).toBe(1);
+  });
+});
@@ -0,0 +1,204 @@
+import { Question, SubjectId } from '../types/question';
+import { Rating } from './difficulty';
+import { SavedSession } from './history';
+import { DEFAULT_HINT_PENALTY } from './marking';
+import { PracticeFilters } from './practice';
+import { questionId } from './validation';
+
+// A quiz moves from answering to submitted, and between submitted and review; answering can be paused
+export type QuizPhase = 'idle' | 'answering' | 'paused' | 'submitted' | 'review';
+
+export interface QuizSessionState {
+  phase: QuizPhase;
+  selectedSubject: SubjectId | null;
+  selectedPaper: string | null;
+  isDueReview: boolean;
+  singleQuestionId: string | null;
+  assignment: { id: string; title: string } | null;
+  adaptiveAbility: Rating | null;
+  practiceFilters: PracticeFilters | null;
+  seed: string | null;
+  deadline: number | null;
+  startTime: number | null;
+  hintPenalty: number;
+  questions: Question[];
+  currentQuestion: number;
+  // When the current question was last opened or resumed; null while its clock is stopped
+  questionOpenedAt: number | null;
+  answers: Record<number, string[]>;
+  // Milliseconds, summed over every visit
+  timePerQuestion: Record<number, number>;
+  visited: Record<number, boolean>;
+  marked: Record<number, boolean>;
+  hintsUsed: Record<number, boolean>;
+}
+
+// Actions that read the clock carry the time, so the reducer stays pure
+export type QuizAction =
+  | { type: 'start'; session: SavedSession; questions: Question[]; now: number }
+  | { type: 'answer'; answer: string }
+  | { type: 'toggleOption'; option: string }
+  | { type: 'clear' }
+  | { type: 'mark'; marked: boolean }
+  | { type: 'useHint' }
+  | { type: 'navigate'; index: number; now: number }
+  | { type: 'append'; question: Question; ability: Rating; now: number }
+  | { type: 'pause'; now: number }
+  | { type: 'resume'; now: number }
+  | { type: 'submit'; now: number }
+  | { type: 'review' }
+  | { type: 'closeReview' }
+  | { type: 'reset' };
+
+export const initialQuizSession: QuizSessionState = {
+  phase: 'idle',
+  selectedSubject: null,
+  selectedPaper: null,
+  isDueReview: false,
+  singleQuestionId: null,
+  assignment: null,
+  adaptiveAbility: null,
+  practiceFilters: null,
+  seed: null,
+  deadline: null,
+  startTime: null,
+  hintPenalty: DEFAULT_HINT_PENALTY,
+  questions: [],
+  currentQuestion: 0,
+  questionOpenedAt: null,
+  answers: {},
+  timePerQuestion: {},
+  visited: {},
+  marked: {},
+  hintsUsed: {},
+};
+
+// Adds the time since the current question was opened to its total
+const stopClock = (state: QuizSessionState, now: number): QuizSessionState => {
+  if (state.questionOpenedAt === null) return state;
+  const { currentQuestion, timePerQuestion } = state;
+  return {
+    ...state,
+    questionOpenedAt: null,
+    timePerQuestion: {
+      ...timePerQuestion,
+      [currentQuestion]: (timePerQuestion[currentQuestion] ?? 0) + Math.max(0, now - state.questionOpenedAt),
+    },
+  };
+};
+
+const openQuestion = (state: QuizSessionState, index: number, now: number): QuizSessionState => {
+  const currentQuestion = Math.max(0, Math.min(index, state.questions.length - 1));
+  return {
+    ...stopClock(state, now),
+    currentQuestion,
+    questionOpenedAt: now,
+    visited: state.visited[currentQuestion] ? state.visited : { ...state.visited, [currentQuestion]: true },
+  };
+};
+
+const withoutIndex = <T>(record: Record<number, T>, index: number): Record<number, T> =>
+  Object.fromEntries(Object.entries(record).filter(([key]) => Number(key) !== index));
+
+const startSession = (session: SavedSession, questions: Question[], now: number): QuizSessionState => {
+  if (questions.length === 0) return initialQuizSession;
+  return openQuestion(
+    {
+      ...initialQuizSession,
+      phase: 'answering',
+      selectedSubject: session.selectedSubject,
+      selectedPaper: session.selectedPaper,
+      isDueReview: session.isDueReview ?? false,
+      singleQuestionId: session.singleQuestionId ?? null,
+      assignment: session.assignment ?? null,
+      adaptiveAbility: session.adaptiveAbility ?? null,
+      practiceFilters: session.practiceFilters ?? null,
+      seed: session.seed ?? null,
+      deadline: session.deadline,
+      startTime: session.startTime ?? now,
+      hintPenalty: session.hintPenalty ?? DEFAULT_HINT_PENALTY,
+      questions,
+      answers: session.answers,
+      timePerQuestion: session.timePerQuestion,
+      visited: session.visited ?? {},
+      marked: session.marked ?? {},
+      hintsUsed: session.hintsUsed ?? {},
+    },
+    session.currentQuestion,
+    now
+  );
+};
+
+// Answers and navigation only apply while a quiz is being answered
+const answering = (state: QuizSessionState, update: (state: QuizSessionState) => QuizSessionState) =>
+  state.phase === 'answering' ? update(state) : state;
+
+export const quizSessionReducer = (state: QuizSessionState, action: QuizAction): QuizSessionState => {
+  switch (action.type) {
+    case 'start':
+      return startSession(action.session, action.questions, action.now);
+    case 'answer':
+      return answering(state, (s) => ({ ...s, answers: { ...s.answers, [s.currentQuestion]: [action.answer] } }));
+    case 'toggleOption':
+      return answering(state, (s) => {
+        const chosen = s.answers[s.currentQuestion] ?? [];
+        const next = chosen.includes(action.option)
+          ? chosen.filter((option) => option !== action.option)
+          : [...chosen, action.option].sort();
+        return { ...s, answers: { ...s.answers, [s.currentQuestion]: next } };
+      });
+    case 'clear':
+      return answering(state, (s) => ({ ...s, answers: withoutIndex(s.answers, s.currentQuestion) }));
+    case 'mark':
+      return answering(state, (s) => ({ ...s, marked: { ...s.marked, [s.currentQuestion]: action.marked } }));
+    case 'useHint':
+      return answering(state, (s) => ({ ...s, hintsUsed: { ...s.hintsUsed, [s.currentQuestion]: true } }));
+    case 'navigate':
+      return answering(state, (s) => openQuestion(s, action.index, action.now));
+    case 'append':
+      return answering(state, (s) =>
+        openQuestion({ ...s, adaptiveAbility: action.ability, questions: [...s.questions, action.question] }, s.questions.length, action.now)
+      );
+    case 'pause':
+      return state.phase === 'answering' ? { ...stopClock(state, action.now), phase: 'paused' } : state;
+    case 'resume':
+      return state.phase === 'paused' ? { ...state, phase: 'answering', questionOpenedAt: action.now } : state;
+    case 'submit':
+      return state.phase === 'answering' || state.phase === 'paused'
+        ? { ...stopClock(state, action.now), phase: 'submitted' }
+        : state;
+    case 'review':
+      return state.phase === 'submitted' ? { ...state, phase: 'review' } : state;
+    case 'closeReview':
+      return state.phase === 'review' ? { ...state, phase: 'submitted' } : state;
+    case 'reset':
+      return initialQuizSession;
+  }
+};
+
+// Time on a question so far, including the visit in progress
+export const timeSpentOn = (state: QuizSessionState, index: number, now: number): number =>
+  (state.timePerQuestion[index] ?? 0) +
+  (index === state.currentQuestion && state.questionOpenedAt !== null ? Math.max(0, now - state.questionOpenedAt) : 0);
+
+// What is kept in local storage to resume the quiz after a reload
+export const toSavedSession = (state: QuizSessionState): SavedSession => ({
+  selectedSubject: state.selectedSubject,
+  selectedPaper: state.selectedPaper,
+  isDueReview: state.isDueReview,
+  singleQuestionId: state.singleQuestionId,
+  assignment: state.assignment,
+  adaptiveAbility: state.adaptiveAbility,
+  practiceFilters: state.practiceFilters,
+  seed: state.seed,
+  deadline: state.deadline,
+  startTime: state.startTime,
+  questionIds: state.questions.map(questionId),
+  currentQuestion: state.currentQuestion,
+  answers: state.answers,
+  timePerQuestion: state.timePerQuestion,
+  visited: state.visited,
+  marked: state.marked,
+  hintsUsed: state.hintsUsed,
+  hintPenalty: state.hintPenalty,
+});
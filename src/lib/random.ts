@@ -0,0 +1,23 @@
+// FNV-1a hash, used to turn a seed string into a 32-bit PRNG state
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Mulberry32: small, fast PRNG that gives the same sequence for the same seed on every browser
+export const createRandom = (seed: string): (() => number) => {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const generateSeed = () => Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, '0');
@@ -0,0 +1,125 @@
+import katex from 'katex';
+import Table from '../components/Table';
+import { texToSpeech } from './mathSpeech';
+import { TableData, isMarkdownTableLine, parseMarkdownTable, parseTabular } from './tables';
+
+const escapeAttribute = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// The spoken form is only a fallback for screen readers, so it never stops the math rendering
+const speakTex = (tex: string) => {
+  try {
+    return texToSpeech(tex);
+  } catch (error) {
+    console.error('Math speech error:', error);
+    return tex;
+  }
+};
+
+// KaTeX hides its visual HTML from screen readers and exposes MathML instead; the alttext
+// gives a spoken version to screen readers that cannot read MathML
+export const renderTex = (tex: string, displayMode: boolean) =>
+  katex
+    .renderToString(tex, { throwOnError: false, displayMode, output: 'htmlAndMathml' })
+    .replace('<math ', `<math alttext="${escapeAttribute(speakTex(tex))}" `);
+
+export const renderMathInline = (text: string) => {
+  return text.split("$").map((part, index) => {
+    if (index % 2 === 1) {
+      try {
+        return (
+          <span
+            key={index}
+            dangerouslySetInnerHTML={{
+              __html: renderTex(part, false),
+            }}
+          />
+        );
+      } catch (error) {
+        console.error("KaTeX rendering error:", error);
+        return <span key={index}>{part}</span>;
+      }
+    }
+    return part;
+  });
+};
+
+export type MathBlock =
+  | { kind: 'display'; content: string }
+  | { kind: 'table'; table: TableData }
+  | { kind: 'text'; content: string };
+
+const BLOCK_PATTERN = /\\\[([\s\S]*?)\\\]|(?:\\begin\{center\}\s*)?\\begin\{tabular\}([\s\S]*?)\\end\{tabular\}(?:\s*\\end\{center\})?/g;
+
+// Plain text between display math and tabular environments: one paragraph per line,
+// with consecutive pipe-table lines grouped into a table
+const textBlocks = (text: string): MathBlock[] => {
+  const blocks: MathBlock[] = [];
+  let tableLines: string[] = [];
+
+  const flushTable = () => {
+    if (tableLines.length > 0) blocks.push({ kind: 'table', table: parseMarkdownTable(tableLines) });
+    tableLines = [];
+  };
+
+  text.split(/\n+/).forEach((line) => {
+    if (isMarkdownTableLine(line)) {
+      tableLines.push(line);
+      return;
+    }
+    flushTable();
+    const trimmed = line.trim();
+    if (trimmed && trimmed !== "\\begin{center}" && trimmed !== "\\end{center}") {
+      blocks.push({ kind: 'text', content: line });
+    }
+  });
+  flushTable();
+  return blocks;
+};
+
+export const parseMathBlocks = (text: string): MathBlock[] => {
+  const blocks: MathBlock[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(BLOCK_PATTERN)) {
+    blocks.push(...textBlocks(text.slice(lastIndex, match.index)));
+    if (match[1] !== undefined) {
+      blocks.push({ kind: 'display', content: match[1].trim() });
+    } else {
+      blocks.push({ kind: 'table', table: parseTabular(match[2]) });
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+  blocks.push(...textBlocks(text.slice(lastIndex)));
+  return blocks;
+};
+
+export const renderMathBlock = (block: MathBlock, key: number | string) => {
+  switch (block.kind) {
+    case 'display':
+      try {
+        return (
+          <div key={key} className="flex justify-center my-4">
+            <div
+              dangerouslySetInnerHTML={{
+                __html: renderTex(block.content, true),
+              }}
+            />
+          </div>
+        );
+      } catch (error) {
+        console.error("KaTeX rendering error:", error);
+        return <div key={key}>{block.content}</div>;
+      }
+    case 'table':
+      return <Table key={key} table={block.table} />;
+    case 'text':
+      return (
+        <p key={key} className="my-2">
+          {renderMathInline(block.content)}
+        </p>
+      );
+  }
+};
+
+export const renderMath = (text: string) => <>{parseMathBlocks(text).map(renderMathBlock)}</>;
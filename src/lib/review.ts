@@ -0,0 +1,106 @@
+import { isAnswered } from './examStatus';
+import { Attempt, AttemptQuestion, loadAttempts } from './history';
+import { MarkStatus } from './marking';
+
+const REVIEW_KEY = 'jee-qb:review';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REVIEW_SESSION_SIZE = 20;
+
+export interface ReviewItem {
+  // Stable question id, see questionId()
+  id: string;
+  easeFactor: number;
+  // Days until the item is due again
+  interval: number;
+  repetitions: number;
+  due: number;
+  lapses: number;
+}
+
+// SM-2 answer quality on a 0-5 scale, derived from how the question was marked
+export const qualityFromStatus = (status: MarkStatus): number => {
+  switch (status) {
+    case 'correct':
+      return 4;
+    case 'partial':
+      return 3;
+    default:
+      return 1;
+  }
+};
+
+export const newReviewItem = (id: string, now = Date.now()): ReviewItem => ({
+  id,
+  easeFactor: 2.5,
+  interval: 0,
+  repetitions: 0,
+  due: now,
+  lapses: 0,
+});
+
+// SuperMemo SM-2: failed recalls restart the schedule, successful ones grow it by the ease factor
+export const scheduleReview = (item: ReviewItem, quality: number, now = Date.now()): ReviewItem => {
+  const easeFactor = Math.max(1.3, item.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    return { ...item, easeFactor, interval: 1, repetitions: 0, due: now + DAY_MS, lapses: item.lapses + 1 };
+  }
+
+  const repetitions = item.repetitions + 1;
+  const interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(item.interval * easeFactor);
+  return { ...item, easeFactor, interval, repetitions, due: now + interval * DAY_MS };
+};
+
+const saveReviewItems = (items: Record<string, ReviewItem>) => {
+  try {
+    localStorage.setItem(REVIEW_KEY, JSON.stringify(items));
+  } catch (error) {
+    console.error('Could not save review queue:', error);
+  }
+};
+
+// Skipped questions, including answers typed and then cleared, were not answered wrong,
+// so they stay out of the queue
+const wrongQuestions = (attempt: Attempt): AttemptQuestion[] =>
+  attempt.questions.filter((q) => !q.correct && isAnswered(q.answer));
+
+export const loadReviewItems = (): Record<string, ReviewItem> => {
+  try {
+    const raw = localStorage.getItem(REVIEW_KEY);
+    if (raw) return JSON.parse(raw) as Record<string, ReviewItem>;
+  } catch (error) {
+    console.error('Could not read review queue:', error);
+    return {};
+  }
+
+  // First run: seed the queue with everything answered wrong in past attempts
+  const items: Record<string, ReviewItem> = {};
+  loadAttempts().forEach((attempt) =>
+    wrongQuestions(attempt).forEach((q) => {
+      items[q.id] = newReviewItem(q.id, attempt.completedAt);
+    })
+  );
+  saveReviewItems(items);
+  return items;
+};
+
+export const getDueItems = (now = Date.now()): ReviewItem[] =>
+  Object.values(loadReviewItems())
+    .filter((item) => item.due <= now)
+    .sort((a, b) => a.due - b.due);
+
+export const recordReview = (id: string, status: MarkStatus, now = Date.now()) => {
+  const items = loadReviewItems();
+  const existing = items[id];
+  // Only questions that were answered wrong at least once enter the queue
+  if (!existing && status === 'correct') return;
+
+  items[id] = scheduleReview(existing ?? newReviewItem(id, now), qualityFromStatus(status), now);
+  saveReviewItems(items);
+};
+
+export const recordAttemptReviews = (attempt: Attempt) =>
+  attempt.questions
+    .filter((q) => isAnswered(q.answer))
+    .forEach((q) => recordReview(q.id, q.correct ? 'correct' : q.marks > 0 ? 'partial' : 'incorrect', attempt.completedAt));
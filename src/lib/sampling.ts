@@ -0,0 +1,13 @@
+// Fisher-Yates shuffle; returns a new array and leaves the input untouched
+export const shuffle = <T>(items: T[], random: () => number = Math.random): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Uniformly random subset of `count` items, in random order
+export const sample = <T>(items: T[], count: number, random: () => number = Math.random): T[] =>
+  shuffle(items, random).slice(0, count);
@@ -0,0 +1,120 @@
+import { Question, QuestionType, SubjectId } from '../types/question';
+
+export interface SearchFilters {
+  subject?: SubjectId;
+  type?: QuestionType;
+  // Paper description, e.g. "JEE Adv 2016 Paper 1"
+  paper?: string;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  question: Question;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+interface IndexEntry {
+  question: Question;
+  // Readable text with LaTeX markup stripped, used for snippets
+  plain: string;
+  // Lower-cased plain text, same length as plain, used for matching
+  folded: string;
+}
+
+export type SearchIndex = IndexEntry[];
+
+const SNIPPET_CONTEXT = 60;
+
+// Commands that only change how their argument looks; the argument is kept, the command dropped
+const WRAPPER_COMMANDS = /\\(?:text|textbf|textit|textrm|mathrm|mathbf|mathit|mathsf|mathcal|mathbb|boldsymbol|operatorname|displaystyle|textstyle|left|right|big|Big|bigg|Bigg)(?![a-zA-Z])/g;
+
+// Turns LaTeX/markdown into searchable words: "\vec{\tau}" becomes "vec tau", "\text{kg m}" becomes "kg m".
+// Queries go through the same function, so a query may be typed either way.
+export const toPlainText = (text: string): string =>
+  text
+    .replace(/\\(?:begin|end)\{[^}]*\}(\{[^}]*\})?/g, ' ')
+    .replace(WRAPPER_COMMANDS, ' ')
+    .replace(/\\([a-zA-Z]+)/g, ' $1 ')
+    .replace(/\\([^a-zA-Z\s])/g, '$1')
+    .replace(/[{}$^_&~|\\]/g, ' ')
+    .replace(/\*\*/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const queryTerms = (query: string) => {
+  const phrase = toPlainText(query).toLowerCase();
+  return { phrase, tokens: phrase.split(' ').filter(Boolean) };
+};
+
+export const buildSearchIndex = (questions: Question[]): SearchIndex =>
+  questions.map((question) => {
+    const plain = toPlainText(question.question);
+    return { question, plain, folded: plain.toLowerCase() };
+  });
+
+const countOccurrences = (text: string, term: string) => text.split(term).length - 1;
+
+const matchesFilters = (question: Question, filters: SearchFilters) =>
+  (!filters.subject || question.subject === filters.subject) &&
+  (!filters.type || question.type === filters.type) &&
+  (!filters.paper || question.description === filters.paper);
+
+// Cuts a window around the first hit and marks every token occurrence inside it
+const buildSnippet = (entry: IndexEntry, phrase: string, tokens: string[]): SnippetPart[] => {
+  const phraseAt = phrase ? entry.folded.indexOf(phrase) : -1;
+  const firstHit = phraseAt !== -1 ? phraseAt : Math.min(...tokens.map((t) => entry.folded.indexOf(t)).filter((i) => i !== -1));
+  const center = Number.isFinite(firstHit) ? firstHit : 0;
+
+  let start = Math.max(0, center - SNIPPET_CONTEXT);
+  let end = Math.min(entry.plain.length, center + phrase.length + SNIPPET_CONTEXT);
+  // Avoid cutting words in half at either edge
+  const startBoundary = entry.plain.indexOf(' ', start);
+  if (start > 0 && startBoundary !== -1 && startBoundary < center) start = startBoundary + 1;
+  const endBoundary = entry.plain.lastIndexOf(' ', end);
+  if (end < entry.plain.length && endBoundary > center + phrase.length) end = endBoundary;
+
+  const ranges: [number, number][] = [];
+  for (const token of tokens) {
+    for (let i = entry.folded.indexOf(token, start); i !== -1 && i < end; i = entry.folded.indexOf(token, i + token.length)) {
+      ranges.push([i, Math.min(i + token.length, end)]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  const parts: SnippetPart[] = [];
+  let cursor = start;
+  for (const [from, to] of ranges) {
+    if (to <= cursor) continue;
+    if (from > cursor) parts.push({ text: entry.plain.slice(cursor, from), match: false });
+    parts.push({ text: entry.plain.slice(Math.max(from, cursor), to), match: true });
+    cursor = to;
+  }
+  if (cursor < end) parts.push({ text: entry.plain.slice(cursor, end), match: false });
+
+  if (start > 0) parts.unshift({ text: '… ', match: false });
+  if (end < entry.plain.length) parts.push({ text: ' …', match: false });
+  return parts;
+};
+
+// Every query word must appear; an exact phrase match ranks above scattered words.
+// An empty query browses everything that passes the filters, in bank order.
+export const searchQuestions = (index: SearchIndex, query: string, filters: SearchFilters = {}): SearchResult[] => {
+  const { phrase, tokens } = queryTerms(query);
+
+  return index
+    .filter((entry) => matchesFilters(entry.question, filters))
+    .filter((entry) => tokens.every((token) => entry.folded.includes(token)))
+    .map((entry) => ({
+      question: entry.question,
+      score: tokens.length === 0
+        ? 0
+        : countOccurrences(entry.folded, phrase) * 10 + tokens.reduce((acc, t) => acc + countOccurrences(entry.folded, t), 0),
+      snippet: buildSnippet(entry, phrase, tokens),
+    }))
+    .sort((a, b) => b.score - a.score);
+};
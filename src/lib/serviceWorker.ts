@@ -0,0 +1,34 @@
+// Registers public/sw.js for the current build. Calls onUpdateReady when a newer version has been
+// downloaded and is waiting; the callback it receives activates that version and reloads the page.
+export const registerServiceWorker = async (onUpdateReady: (apply: () => void) => void) => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  // Asks the browser not to evict saved attempts and the offline cache under storage pressure
+  navigator.storage?.persist?.().catch(() => undefined);
+
+  let version: string;
+  try {
+    const response = await fetch('/precache-manifest.json', { cache: 'no-store' });
+    ({ version } = (await response.json()) as { version: string });
+  } catch {
+    // Offline: the worker that is already installed keeps serving the app
+    return;
+  }
+
+  const hadController = navigator.serviceWorker.controller !== null;
+  const registration = await navigator.serviceWorker.register(`/sw.js?v=${version}`);
+
+  const notify = (worker: ServiceWorker) => onUpdateReady(() => worker.postMessage('skip-waiting'));
+  if (registration.waiting && hadController) notify(registration.waiting);
+  registration.addEventListener('updatefound', () => {
+    const worker = registration.installing;
+    worker?.addEventListener('statechange', () => {
+      if (worker.state === 'installed' && hadController) notify(worker);
+    });
+  });
+
+  // The first install takes control silently; later versions reload once they take over
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (hadController) window.location.reload();
+  });
+};
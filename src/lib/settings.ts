@@ -0,0 +1,42 @@
+import { DEFAULT_HINT_PENALTY } from './marking';
+import { Theme } from './theme';
+
+const SETTINGS_KEY = 'jee-qb:settings';
+
+export interface Settings {
+  // Fraction of a question's maximum marks lost by revealing its hint
+  hintPenalty: number;
+  // Classroom server address; empty means the app runs standalone
+  classroomUrl: string;
+  studentName: string;
+  batch: string;
+  theme: Theme;
+}
+
+export const HINT_PENALTY_OPTIONS = [0, 0.25, 0.5, 1];
+
+const DEFAULT_SETTINGS: Settings = {
+  hintPenalty: DEFAULT_HINT_PENALTY,
+  classroomUrl: import.meta.env.VITE_CLASSROOM_URL ?? '',
+  studentName: '',
+  batch: '',
+  theme: 'light',
+};
+
+export const loadSettings = (): Settings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...(JSON.parse(raw) as Partial<Settings>) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.error('Could not read settings:', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Could not save settings:', error);
+  }
+};
@@ -0,0 +1,41 @@
+import { OptionLetter } from '../types/question';
+import { OPTION_LETTERS } from './options';
+
+export type QuizCommand =
+  | { kind: 'option'; option: OptionLetter }
+  | { kind: 'previous' | 'next' | 'mark' | 'clear' | 'hint' | 'submit' | 'help' };
+
+export const QUIZ_SHORTCUTS: { keys: string[]; description: string }[] = [
+  { keys: ['A', 'B', 'C', 'D'], description: 'Choose an option (1–4 also work)' },
+  { keys: ['→', 'N'], description: 'Save & next' },
+  { keys: ['←', 'P'], description: 'Previous question' },
+  { keys: ['M'], description: 'Mark for review & next' },
+  { keys: ['Delete'], description: 'Clear response' },
+  { keys: ['H'], description: 'Show hint' },
+  { keys: ['S'], description: 'Submit' },
+  { keys: ['?'], description: 'Show keyboard shortcuts' },
+];
+
+const COMMANDS: Record<string, QuizCommand['kind']> = {
+  ArrowRight: 'next',
+  N: 'next',
+  ArrowLeft: 'previous',
+  P: 'previous',
+  M: 'mark',
+  Delete: 'clear',
+  H: 'hint',
+  S: 'submit',
+  '?': 'help',
+};
+
+// Single keys without modifiers; ignored while typing in a field so numeric answers can be entered
+export const quizCommandFor = (event: KeyboardEvent): QuizCommand | null => {
+  if (event.ctrlKey || event.metaKey || event.altKey) return null;
+  const target = event.target as HTMLElement | null;
+  if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return null;
+
+  const key = event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  const optionIndex = OPTION_LETTERS.findIndex((letter, index) => key === letter || key === String(index + 1));
+  if (optionIndex !== -1) return { kind: 'option', option: OPTION_LETTERS[optionIndex] };
+  return COMMANDS[key] ? ({ kind: COMMANDS[key] } as QuizCommand) : null;
+};
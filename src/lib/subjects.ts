@@ -0,0 +1,17 @@
+import { SubjectId } from '../types/question';
+
+export interface Subject {
+  id: SubjectId;
+  name: string;
+  color: string;
+}
+
+// Listed in the order sections appear in a JEE Advanced paper
+export const SUBJECTS: Subject[] = [
+  { id: 'phy', name: 'Physics', color: 'bg-green-500' },
+  { id: 'chem', name: 'Chemistry', color: 'bg-purple-500' },
+  { id: 'math', name: 'Mathematics', color: 'bg-blue-500' },
+];
+
+export const getSubjectName = (id: string) =>
+  SUBJECTS.find((subject) => subject.id === id)?.name ?? id;
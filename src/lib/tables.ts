@@ -0,0 +1,91 @@
+export type Alignment = 'left' | 'center' | 'right';
+
+export interface TableData {
+  headers: string[];
+  rows: string[][];
+  alignments: Alignment[];
+}
+
+// Splits on a separator, ignoring occurrences inside $...$ math or escaped with a backslash
+export const splitOutsideMath = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let inMath = false;
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && !text.startsWith(separator, i)) {
+      current += text.slice(i, i + 2);
+      i++;
+      continue;
+    }
+    if (text[i] === '$') inMath = !inMath;
+    if (!inMath && text.startsWith(separator, i)) {
+      parts.push(current);
+      current = '';
+      i += separator.length - 1;
+      continue;
+    }
+    current += text[i];
+  }
+  parts.push(current);
+  return parts;
+};
+
+const alignmentFromSpec = (spec: string): Alignment[] =>
+  spec
+    .replace(/[pmb]\{[^}]*\}/g, 'l')
+    .replace(/[^lcr]/g, '')
+    .split('')
+    .map((c) => (c === 'c' ? 'center' : c === 'r' ? 'right' : 'left'));
+
+// Parses the body of a \begin{tabular}{spec} ... \end{tabular} environment
+export const parseTabular = (body: string): TableData => {
+  let content = body.trim();
+  let alignments: Alignment[] = [];
+
+  if (content.startsWith('{')) {
+    let depth = 0;
+    let end = 0;
+    for (; end < content.length; end++) {
+      if (content[end] === '{') depth++;
+      if (content[end] === '}' && --depth === 0) break;
+    }
+    alignments = alignmentFromSpec(content.slice(1, end));
+    content = content.slice(end + 1);
+  }
+
+  const rows = splitOutsideMath(content, '\\\\')
+    .map((row) => row.replace(/\\hline|\\cline\{[^}]*\}/g, '').trim())
+    .filter((row) => row !== '')
+    .map((row) => splitOutsideMath(row, '&').map((cell) => cell.trim()));
+
+  return { headers: rows[0] ?? [], rows: rows.slice(1), alignments };
+};
+
+export const isMarkdownTableLine = (line: string) => {
+  const trimmed = line.trim();
+  return trimmed.startsWith('|') && trimmed.endsWith('|') && trimmed.length > 1;
+};
+
+const splitMarkdownRow = (line: string) =>
+  splitOutsideMath(line.trim().slice(1, -1), '|').map((cell) => cell.trim());
+
+const isAlignmentRow = (cells: string[]) => cells.every((cell) => /^:?-{3,}:?$/.test(cell));
+
+const alignmentFromMarker = (cell: string): Alignment =>
+  cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : 'left';
+
+// Parses GitHub-style pipe tables; the row above a |:---:| line becomes the header
+export const parseMarkdownTable = (lines: string[]): TableData => {
+  const rows = lines.map(splitMarkdownRow);
+  const separator = rows.findIndex(isAlignmentRow);
+
+  if (separator === -1) {
+    return { headers: [], rows, alignments: [] };
+  }
+  return {
+    headers: separator > 0 ? rows[separator - 1] : [],
+    rows: rows.filter((_, index) => index !== separator && index !== separator - 1),
+    alignments: rows[separator].map(alignmentFromMarker),
+  };
+};
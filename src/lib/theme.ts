@@ -0,0 +1,12 @@
+export type Theme = 'light' | 'dark' | 'contrast';
+
+export const THEMES: { id: Theme; name: string }[] = [
+  { id: 'light', name: 'Light' },
+  { id: 'dark', name: 'Dark' },
+  { id: 'contrast', name: 'High contrast' },
+];
+
+// The colours for each theme are overridden in index.css, keyed on this attribute
+export const applyTheme = (theme: Theme) => {
+  document.documentElement.dataset.theme = theme;
+};
@@ -0,0 +1,87 @@
+import { Question, SubjectId } from '../types/question';
+
+export interface Topic {
+  id: string;
+  name: string;
+  // Lower-case fragments matched against the raw question text, LaTeX included
+  keywords: string[];
+}
+
+export const UNTAGGED_TOPIC = 'untagged';
+
+export const TOPICS: Record<SubjectId, Topic[]> = {
+  phy: [
+    { id: 'units-measurement', name: 'Units, Dimensions & Measurement', keywords: ['screw gauge', 'vernier', 'least count', 'dimension', 'percentage error', 'significant figure', 'main scale'] },
+    { id: 'kinematics', name: 'Kinematics', keywords: ['projectile', 'kinematics', 'position vector', 'displacement', 'acceleration', 'relative velocity'] },
+    { id: 'laws-of-motion', name: 'Laws of Motion', keywords: ['friction', 'pulley', 'tension', 'newton', 'inclined plane', 'coefficient of'] },
+    { id: 'work-energy', name: 'Work, Energy & Collisions', keywords: ['work done', 'kinetic energy', 'potential energy', 'collision', 'elastic collision', 'spring constant', 'power delivered'] },
+    { id: 'rotational-dynamics', name: 'Rotational Dynamics', keywords: ['torque', 'angular momentum', 'moment of inertia', 'rolling', 'angular velocity', 'angular acceleration', 'rigid body', 'rotat'] },
+    { id: 'gravitation', name: 'Gravitation', keywords: ['gravitation', 'satellite', 'orbit', 'planet', 'escape velocity', 'earth'] },
+    { id: 'properties-of-matter', name: 'Properties of Matter & Fluids', keywords: ['viscosity', 'viscous', 'surface tension', "young's modulus", 'bulk modulus', 'fluid', 'bernoulli', 'buoyan', 'capillary', 'liquid'] },
+    { id: 'oscillations-waves', name: 'Oscillations & Waves', keywords: ['oscillat', 'simple harmonic', 'pendulum', 'wave', 'sound', 'resonance', 'doppler', 'beat', 'organ pipe', 'stretched string'] },
+    { id: 'thermal-physics', name: 'Heat & Thermodynamics', keywords: ['heat', 'temperature', 'thermal', 'thermodynamic', 'adiabatic', 'isothermal', 'calorimet', 'black body', 'ideal gas', 'monatomic', 'diatomic'] },
+    { id: 'electrostatics', name: 'Electrostatics & Capacitors', keywords: ['charge', 'electric field', 'electrostatic', 'capacitor', 'capacitance', 'dielectric', 'gauss', 'coulomb', 'permittivity', 'epsilon_{0}'] },
+    { id: 'current-electricity', name: 'Current Electricity', keywords: ['resistance', 'resistor', 'current', 'battery', 'circuit', 'kirchhoff', 'galvanometer', 'ammeter', 'voltmeter', 'wheatstone', 'potentiometer', 'ohm'] },
+    { id: 'magnetism', name: 'Magnetic Effects of Current', keywords: ['magnetic field', 'magnetic', 'solenoid', 'biot', 'ampere', 'cyclotron', 'lorentz', 'mu_{0}'] },
+    { id: 'electromagnetic-induction', name: 'Electromagnetic Induction & AC', keywords: ['induct', 'faraday', 'magnetic flux', 'alternating', 'transformer', 'lcr', 'l c r', 'ac source', 'self-inductance'] },
+    { id: 'optics', name: 'Optics', keywords: ['lens', 'mirror', 'refract', 'reflect', 'prism', 'interference', 'diffraction', 'double slit', 'focal length', 'polari', 'optical', 'wavelength'] },
+    { id: 'modern-physics', name: 'Modern Physics', keywords: ['photoelectric', 'photon', 'nucleus', 'nuclear', 'radioactive', 'decay', 'half-life', 'de broglie', 'bohr', 'hydrogen atom', 'x-ray', 'semiconductor', 'binding energy', 'work function'] },
+  ],
+  chem: [
+    { id: 'mole-concept', name: 'Mole Concept & Stoichiometry', keywords: ['titrat', 'mole fraction', 'empirical formula', 'weight %', 'mass percent', 'limiting reagent', 'molar mass', 'stoichiometr'] },
+    { id: 'atomic-structure', name: 'Atomic Structure', keywords: ['quantum number', 'orbital', 'electronic configuration', 'electron configuration', 'bohr', 'de broglie', 'wave function', 'radial node'] },
+    { id: 'chemical-bonding', name: 'Chemical Bonding', keywords: ['hybridi', 'bond order', 'molecular orbital', 'vsepr', 'dipole moment', 'lone pair', 'paramagnetic', 'diamagnetic', 'bond angle', 'bond length'] },
+    { id: 'states-of-matter', name: 'Gaseous & Solid State', keywords: ['unit cell', 'lattice', 'packing', 'fcc', 'bcc', 'crystal', 'void', 'van der waals', 'compressibility', 'real gas', 'ideal gas'] },
+    { id: 'chemical-thermodynamics', name: 'Chemical Thermodynamics', keywords: ['enthalpy', 'entropy', 'gibbs', 'delta h', 'delta s', 'delta g', 'heat of', 'bomb calorimeter', 'spontaneous'] },
+    { id: 'equilibrium', name: 'Chemical & Ionic Equilibrium', keywords: ['equilibrium', 'buffer', 'k_{sp}', 'solubility product', 'mathrm{ph}', 'ph of', 'k_{p}', 'k_{c}', 'dissociation constant', 'hydrolysis'] },
+    { id: 'electrochemistry', name: 'Electrochemistry', keywords: ['electrode', 'cell potential', 'electrolys', 'nernst', 'conductance', 'conductivity', 'galvanic', 'e^{\\circ}', 'e^{0}'] },
+    { id: 'chemical-kinetics', name: 'Chemical Kinetics', keywords: ['rate of reaction', 'rate constant', 'order of reaction', 'first order', 'activation energy', 'arrhenius', 'half-life', 'rate law'] },
+    { id: 'solutions', name: 'Solutions & Colligative Properties', keywords: ['molality', 'osmotic', 'vapour pressure', 'vapor pressure', 'colligative', 'raoult', 'freezing point', 'boiling point', 'elevation', 'depression'] },
+    { id: 'periodic-table', name: 'Periodic Properties & s/p-Block', keywords: ['atomic radi', 'ionization enthalp', 'electronegativity', 'electron gain', 'group 13', 'group 15', 'group 16', 'group 17', 'oxoacid', 'halogen', 'noble gas', 'borax', 'diborane'] },
+    { id: 'coordination-compounds', name: 'd-Block & Coordination Compounds', keywords: ['complex', 'ligand', 'coordination', 'crystal field', 'spin-only', 'transition metal', 'magnetic moment', '[co', '[fe', '[ni', '[cr', '[cu'] },
+    { id: 'metallurgy', name: 'Metallurgy & Qualitative Analysis', keywords: [' ore', 'metallurgy', 'roasting', 'smelting', 'extraction', 'precipitate', 'salt', 'flame test', 'froth flotation'] },
+    { id: 'organic-reactions', name: 'Organic Reactions & Mechanisms', keywords: ['major product', 'nucleophil', 'electrophil', 's_{n}', 'sn1', 'sn2', 'aldehyde', 'ketone', 'alcohol', 'carboxylic', 'amine', 'benzene', 'aromatic', 'ozonolysis', 'grignard', 'reaction sequence', 'ester', 'phenol', 'alkene', 'alkyne', 'hydrocarbon', 'ch}_{3}', 'ch_{3}'] },
+    { id: 'isomerism', name: 'Isomerism & Stereochemistry', keywords: ['stereo', 'chiral', 'enantiomer', 'isomer', 'optical activity', 'optically active', 'racemic', 'diastereomer'] },
+    { id: 'biomolecules-polymers', name: 'Biomolecules & Polymers', keywords: ['glucose', 'protein', 'amino acid', 'polymer', 'carbohydrate', 'nucleic', 'vitamin', 'peptide', 'sucrose', 'rubber', 'nylon'] },
+  ],
+  math: [
+    { id: 'sets-functions', name: 'Sets, Relations & Functions', keywords: ['one-one', 'onto', 'bijective', 'injective', 'surjective', 'relation', 'domain', 'range of', 'mathbb{r} \\rightarrow'] },
+    { id: 'complex-numbers', name: 'Complex Numbers', keywords: ['complex number', 'bar{z}', '|z', '\\arg', 'imaginary', 'mathbb{c}'] },
+    { id: 'quadratic-equations', name: 'Quadratic Equations & Polynomials', keywords: ['quadratic', 'roots of', 'polynomial', 'real roots'] },
+    { id: 'sequences-series', name: 'Sequences & Series', keywords: ['progression', 'a.p.', 'g.p.', 'arithmetic', 'geometric', 'series', 'sum of the first', 'sum_{'] },
+    { id: 'permutations-binomial', name: 'Permutations, Combinations & Binomial', keywords: ['permutation', 'combination', 'arrange', 'number of ways', 'binom', 'binomial', 'coefficient of', '^{n} c_{'] },
+    { id: 'probability', name: 'Probability', keywords: ['probability', 'random', 'dice', ' die ', 'coin', 'balls', 'urn', 'bag'] },
+    { id: 'matrices-determinants', name: 'Matrices & Determinants', keywords: ['matrix', 'matrices', 'determinant', 'pmatrix', 'adj', 'invertible', 'singular', '\\det'] },
+    { id: 'trigonometry', name: 'Trigonometry', keywords: ['\\sin', '\\cos', '\\tan', '\\cot', 'triangle', 'trigonometric', '\\sec'] },
+    { id: 'limits-continuity', name: 'Limits, Continuity & Differentiability', keywords: ['\\lim', 'limit', 'continuous', 'differentiable', 'discontinu'] },
+    { id: 'differential-calculus', name: 'Applications of Derivatives', keywords: ['derivative', 'maximum', 'minimum', 'local max', 'local min', 'increasing', 'decreasing', 'prime}', 'tangent to the curve'] },
+    { id: 'integral-calculus', name: 'Integral Calculus', keywords: ['\\int', 'integral', 'area of the region', 'area bounded'] },
+    { id: 'differential-equations', name: 'Differential Equations', keywords: ['differential equation', 'd y}{d x}', 'dy/dx', 'frac{d y}', 'solution curve'] },
+    { id: 'coordinate-geometry', name: 'Coordinate Geometry', keywords: ['circle', 'parabola', 'ellipse', 'hyperbola', 'locus', 'chord', 'focus', 'directrix', 'straight line', 'tangent', 'normal'] },
+    { id: 'vectors-3d', name: 'Vectors & 3D Geometry', keywords: ['\\vec', '\\hat', 'vector', 'plane', 'line of intersection', 'direction ratio', 'skew', 'mathbb{r}^{3}'] },
+  ],
+};
+
+export const getTopics = (subject: string): Topic[] => TOPICS[subject as SubjectId] ?? [];
+
+export const getTopicName = (subject: string, topicId: string) =>
+  getTopics(subject).find((topic) => topic.id === topicId)?.name ?? 'Untagged';
+
+export const isKnownTopic = (subject: string, topicId: string) =>
+  getTopics(subject).some((topic) => topic.id === topicId);
+
+// Keyword tagger used to bootstrap tags: the topic whose keywords match most often wins,
+// earlier topics in the taxonomy win ties
+export const suggestTopic = (question: { subject: string; question: string }): string | null => {
+  const text = question.question.toLowerCase();
+  let best: { id: string; score: number } | null = null;
+
+  for (const topic of getTopics(question.subject)) {
+    const score = topic.keywords.reduce((acc, keyword) => acc + text.split(keyword).length - 1, 0);
+    if (score > 0 && (!best || score > best.score)) best = { id: topic.id, score };
+  }
+  return best?.id ?? null;
+};
+
+export const getQuestionTopic = (question: Pick<Question, 'subject' | 'question' | 'topic'>): string =>
+  question.topic ?? suggestTopic(question) ?? UNTAGGED_TOPIC;
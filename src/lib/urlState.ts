@@ -0,0 +1,90 @@
+import { Question, QuestionType, SubjectId } from '../types/question';
+import { DEFAULT_SESSION_SIZE, PracticeFilters, buildPracticeSet, buildSubjectSet } from './practice';
+import { getPaperQuestions } from './papers';
+import { createRandom } from './random';
+import { QUESTION_TYPES, SUBJECT_IDS, questionId } from './validation';
+
+export interface QuizUrlState {
+  // A single question opened from search, see questionId()
+  id?: string;
+  subject?: SubjectId;
+  paper?: string;
+  filters?: PracticeFilters;
+  seed?: string;
+  // Zero-based; shown one-based in the URL
+  question: number;
+}
+
+const parseList = (value: string | null) => (value ? value.split(',').filter(Boolean) : []);
+
+const parseNumbers = (value: string | null) =>
+  parseList(value).map((n) => parseInt(n, 10)).filter((n) => !Number.isNaN(n));
+
+export const encodeQuizUrl = (state: QuizUrlState): string => {
+  const params = new URLSearchParams();
+
+  if (state.id) {
+    params.set('id', state.id);
+  } else if (state.paper) {
+    params.set('paper', state.paper);
+  } else if (state.filters) {
+    params.set('subjects', state.filters.subjects.join(','));
+    params.set('years', `${state.filters.yearFrom}-${state.filters.yearTo}`);
+    params.set('papers', state.filters.papers.join(','));
+    params.set('types', state.filters.types.join(','));
+    if (state.filters.topics?.length) params.set('topics', state.filters.topics.join(','));
+    params.set('count', state.filters.count.toString());
+  } else if (state.subject) {
+    params.set('subject', state.subject);
+  }
+  if (state.seed) params.set('seed', state.seed);
+  params.set('q', (state.question + 1).toString());
+
+  return `?${params.toString()}`;
+};
+
+// Returns null when the URL does not describe a quiz
+export const decodeQuizUrl = (search: string): QuizUrlState | null => {
+  const params = new URLSearchParams(search);
+  const question = Math.max(0, (parseInt(params.get('q') ?? '1', 10) || 1) - 1);
+  const seed = params.get('seed') ?? undefined;
+
+  const id = params.get('id');
+  if (id) return { id, question: 0 };
+
+  const paper = params.get('paper');
+  if (paper) return { paper, question };
+
+  if (params.has('subjects')) {
+    const [yearFrom, yearTo] = parseNumbers((params.get('years') ?? '').replace('-', ','));
+    const filters: PracticeFilters = {
+      subjects: parseList(params.get('subjects')).filter((s): s is SubjectId => SUBJECT_IDS.includes(s as SubjectId)),
+      yearFrom: yearFrom ?? 0,
+      yearTo: yearTo ?? yearFrom ?? 9999,
+      papers: parseNumbers(params.get('papers')),
+      types: parseList(params.get('types')).filter((t): t is QuestionType => QUESTION_TYPES.includes(t as QuestionType)),
+      topics: parseList(params.get('topics')),
+      count: parseInt(params.get('count') ?? '', 10) || DEFAULT_SESSION_SIZE,
+    };
+    return seed ? { filters, seed, question } : null;
+  }
+
+  const subject = params.get('subject');
+  if (subject && SUBJECT_IDS.includes(subject as SubjectId) && seed) {
+    return { subject: subject as SubjectId, seed, question };
+  }
+  return null;
+};
+
+// Identifies the question set a URL describes, ignoring the current question
+export const quizKey = (state: QuizUrlState) => encodeQuizUrl({ ...state, question: 0 });
+
+// Rebuilds the exact question set, in order, that a URL describes
+export const resolveQuizUrl = (state: QuizUrlState, bank: Question[]): Question[] => {
+  if (state.id) return bank.filter((q) => questionId(q) === state.id);
+  if (state.paper) return getPaperQuestions(bank, state.paper);
+  const random = createRandom(state.seed ?? '');
+  if (state.filters) return buildPracticeSet(bank, state.filters, random);
+  if (state.subject) return buildSubjectSet(bank, state.subject, random);
+  return [];
+};
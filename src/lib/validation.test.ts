@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { validateQuestion } from './validation';
+
+const numeric = {
+  description: 'JEE Adv 2019 Paper 1',
+  index: 1,
+  subject: 'phy',
+  type: 'Numeric',
+  question: 'Find the focal length in cm.',
+  gold: '6.75',
+};
+
+describe('validateQuestion', () => {
+  it('accepts per-question grading options', () => {
+    expect(validateQuestion({ ...numeric, decimals: 1, tolerance: 0.05, relativeTolerance: 0 })).toEqual([]);
+  });
+
+  it('rejects grading options that are not non-negative numbers', () => {
+    expect(validateQuestion({ ...numeric, tolerance: '0.05', relativeTolerance: -0.01 })).toEqual([
+      'tolerance must be a non-negative number when present',
+      'relativeTolerance must be a non-negative number when present',
+    ]);
+    expect(validateQuestion({ ...numeric, decimals: Infinity })).toEqual(['decimals must be a non-negative number when present']);
+    expect(validateQuestion({ ...numeric, decimals: 1.5 })).toEqual(['decimals must be a whole number of decimal places']);
+  });
+});
@@ -0,0 +1,127 @@
+import { Question, QuestionType, SubjectId } from '../types/question';
+import { normalizeNumeric } from './grading';
+import { parsePaper } from './papers';
+import { SUBJECTS } from './subjects';
+import { isKnownTopic } from './topics';
+
+export const QUESTION_TYPES: QuestionType[] = ['MCQ', 'MCQ(multiple)', 'Integer', 'Numeric'];
+
+export const SUBJECT_IDS: SubjectId[] = SUBJECTS.map((subject) => subject.id);
+
+export interface ValidationIssue {
+  // Position of the entry in the questions array
+  position: number;
+  id?: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  questions: Question[];
+  issues: ValidationIssue[];
+}
+
+export const questionId = (q: Pick<Question, 'description' | 'index'>) => `${q.description}#${q.index}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const validateGold = (type: QuestionType, gold: string): string | null => {
+  switch (type) {
+    case 'MCQ':
+      return /^[A-D]$/.test(gold) ? null : `MCQ gold must be a single letter A-D, got "${gold}"`;
+    case 'MCQ(multiple)':
+      if (!/^[A-D]{1,4}$/.test(gold)) return `MCQ(multiple) gold must be letters A-D, got "${gold}"`;
+      if (new Set(gold).size !== gold.length) return `MCQ(multiple) gold repeats a letter: "${gold}"`;
+      if (gold.split('').sort().join('') !== gold) return `MCQ(multiple) gold must be in alphabetical order: "${gold}"`;
+      return null;
+    case 'Integer': {
+      const value = normalizeNumeric(gold);
+      return value !== null && Number.isInteger(value) ? null : `Integer gold must be a whole number, got "${gold}"`;
+    }
+    case 'Numeric':
+      return normalizeNumeric(gold) !== null ? null : `Numeric gold must be a number, got "${gold}"`;
+  }
+};
+
+// Returns the problems found in a single raw entry; an empty list means it is a valid Question
+export const validateQuestion = (raw: unknown): string[] => {
+  if (!isRecord(raw)) return ['entry is not an object'];
+
+  const errors: string[] = [];
+  const { description, index, subject, type, question, gold } = raw;
+
+  if (typeof description !== 'string' || !description.trim()) {
+    errors.push('description must be a non-empty string');
+  } else if (!parsePaper(description)) {
+    errors.push(`description "${description}" does not look like "<exam> <year> Paper <n>"`);
+  }
+  if (typeof index !== 'number' || !Number.isInteger(index) || index < 1) {
+    errors.push('index must be a positive integer');
+  }
+  if (typeof subject !== 'string' || !SUBJECT_IDS.includes(subject as SubjectId)) {
+    errors.push(`unknown subject "${String(subject)}"`);
+  }
+  if (typeof question !== 'string' || !question.trim()) {
+    errors.push('question must be a non-empty string');
+  }
+  if (raw.topic !== undefined && (typeof raw.topic !== 'string' || !isKnownTopic(String(subject), raw.topic))) {
+    errors.push(`unknown topic "${String(raw.topic)}" for subject "${String(subject)}"`);
+  }
+  for (const field of ['hint', 'solution'] as const) {
+    if (raw[field] !== undefined && (typeof raw[field] !== 'string' || !String(raw[field]).trim())) {
+      errors.push(`${field} must be a non-empty string when present`);
+    }
+  }
+  // Grading options feed straight into the numeric comparison, see isNumericCorrect()
+  for (const field of ['decimals', 'tolerance', 'relativeTolerance'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      errors.push(`${field} must be a non-negative number when present`);
+    } else if (field === 'decimals' && !Number.isInteger(value)) {
+      errors.push('decimals must be a whole number of decimal places');
+    }
+  }
+  if (typeof type !== 'string' || !QUESTION_TYPES.includes(type as QuestionType)) {
+    errors.push(`unknown type "${String(type)}"`);
+  } else if (typeof gold !== 'string') {
+    errors.push('gold must be a string');
+  } else {
+    const goldError = validateGold(type as QuestionType, gold);
+    if (goldError) errors.push(goldError);
+  }
+
+  return errors;
+};
+
+export const validateQuestionBank = (data: unknown): ValidationResult => {
+  const issues: ValidationIssue[] = [];
+  const questions: Question[] = [];
+
+  if (!isRecord(data) || !Array.isArray(data.questions)) {
+    return { questions, issues: [{ position: -1, message: 'expected an object with a "questions" array' }] };
+  }
+
+  const seen = new Map<string, number>();
+  data.questions.forEach((raw: unknown, position: number) => {
+    const errors = validateQuestion(raw);
+    const id = isRecord(raw) ? `${raw.description}#${raw.index}` : undefined;
+
+    if (id !== undefined) {
+      const first = seen.get(id);
+      if (first !== undefined) {
+        errors.push(`duplicate (description, index) of entry ${first}`);
+      } else {
+        seen.set(id, position);
+      }
+    }
+
+    if (errors.length > 0) {
+      errors.forEach((message) => issues.push({ position, id, message }));
+      return;
+    }
+    questions.push(raw as unknown as Question);
+  });
+
+  return { questions, issues };
+};
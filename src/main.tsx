@@ -1,10 +1,16 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import UpdateBanner from './components/UpdateBanner';
+import { loadSettings } from './lib/settings';
+import { applyTheme } from './lib/theme';
 import './index.css';
 
+applyTheme(loadSettings().theme);
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
+    <UpdateBanner />
   </StrictMode>
 );
@@ -0,0 +1,46 @@
+export type SubjectId = 'math' | 'phy' | 'chem';
+
+export type QuestionType = 'MCQ' | 'MCQ(multiple)' | 'Integer' | 'Numeric';
+
+export type OptionLetter = 'A' | 'B' | 'C' | 'D';
+
+interface BaseQuestion {
+  description: string;
+  index: number;
+  subject: SubjectId;
+  question: string;
+  // Topic id from the subject's taxonomy in lib/topics
+  topic?: string;
+  // LaTeX/markdown, rendered like the question text
+  hint?: string;
+  solution?: string;
+}
+
+export interface SingleChoiceQuestion extends BaseQuestion {
+  type: 'MCQ';
+  gold: OptionLetter;
+}
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  type: 'MCQ(multiple)';
+  gold: string;
+}
+
+export interface IntegerQuestion extends BaseQuestion {
+  type: 'Integer';
+  gold: string;
+}
+
+export interface NumericQuestion extends BaseQuestion {
+  type: 'Numeric';
+  gold: string;
+  decimals?: number;
+  tolerance?: number;
+  relativeTolerance?: number;
+}
+
+export type Question = SingleChoiceQuestion | MultipleChoiceQuestion | IntegerQuestion | NumericQuestion;
+
+export interface QuestionBank {
+  questions: Question[];
+}
@@ -1 +1,13 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Default classroom server address, e.g. http://192.168.1.10:8787
+  readonly VITE_CLASSROOM_URL?: string;
+}
+
+// Generated from src/data/quiz.json by the question-bank-chunks plugin in vite.config.ts
+declare module 'virtual:question-bank' {
+  export const chunks: { description: string; subject: string; indices: number[]; positions: number[] }[];
+  // Raw quiz.json entries, validated by the caller
+  export const loadChunk: (position: number) => Promise<unknown[]>;
+}
@@ -1,9 +1,98 @@
-import { defineConfig } from 'vite';
+import { createHash } from 'node:crypto';
+import { readdirSync, readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { defineConfig, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Lists every built file for public/sw.js to precache. The version is a hash of the output,
+// so any change to the app or the question bank installs a fresh cache.
+const precacheManifest = (): Plugin => ({
+  name: 'precache-manifest',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const publicDir = resolve(__dirname, 'public');
+    const publicFiles = readdirSync(publicDir).filter((file) => file !== 'sw.js');
+    const hash = createHash('sha256');
+
+    const built = Object.values(bundle)
+      // Every browser with service workers reads woff2, so the woff/ttf copies of the KaTeX fonts are skipped
+      .filter((output) => !/\.(map|woff|ttf)$/.test(output.fileName))
+      .map((output) => {
+        hash.update(output.fileName).update(output.type === 'chunk' ? output.code : output.source);
+        return output.fileName;
+      });
+    publicFiles.forEach((file) => hash.update(file).update(readFileSync(resolve(publicDir, file))));
+    hash.update(readFileSync(resolve(publicDir, 'sw.js')));
+
+    const files = ['/', ...[...built, ...publicFiles].map((file) => `/${file}`)];
+    this.emitFile({
+      type: 'asset',
+      fileName: 'precache-manifest.json',
+      source: JSON.stringify({ version: hash.digest('hex').slice(0, 12), files }, null, 2),
+    });
+  },
+});
+
+const BANK_MODULE = 'virtual:question-bank';
+
+// Serves src/data/quiz.json as one lazily imported chunk per paper and subject, plus a small manifest
+// (virtual:question-bank) listing each chunk's question indices and their positions in quiz.json, which stays
+// the file that is edited.
+const questionBankChunks = (): Plugin => {
+  const source = resolve(__dirname, 'src/data/quiz.json');
+
+  const readChunks = () => {
+    const { questions } = JSON.parse(readFileSync(source, 'utf8')) as { questions: Record<string, unknown>[] };
+    const chunks = new Map<string, { slug: string; description: string; subject: string; entries: Record<string, unknown>[]; positions: number[] }>();
+    questions.forEach((entry, position) => {
+      const description = String(entry.description);
+      const subject = String(entry.subject);
+      const key = `${description}|${subject}`;
+      if (!chunks.has(key)) {
+        chunks.set(key, { slug: `${description}-${subject}`.toLowerCase().replace(/[^a-z0-9]+/g, '-'), description, subject, entries: [], positions: [] });
+      }
+      chunks.get(key)!.entries.push(entry);
+      chunks.get(key)!.positions.push(position);
+    });
+    return Array.from(chunks.values());
+  };
+
+  return {
+    name: 'question-bank-chunks',
+    resolveId(id) {
+      return id === BANK_MODULE || id.startsWith(`${BANK_MODULE}/`) ? `\0${id}` : undefined;
+    },
+    load(id) {
+      if (!id.startsWith(`\0${BANK_MODULE}`)) return undefined;
+      this.addWatchFile(source);
+      const chunks = readChunks();
+
+      if (id === `\0${BANK_MODULE}`) {
+        const manifest = chunks.map(({ description, subject, entries, positions }) => ({
+          description,
+          subject,
+          indices: entries.map((entry) => entry.index),
+          positions,
+        }));
+        const loaders = chunks.map(({ slug }) => `() => import('${BANK_MODULE}/${slug}')`);
+        return [
+          `export const chunks = ${JSON.stringify(manifest)};`,
+          `const loaders = [${loaders.join(', ')}];`,
+          'export const loadChunk = (position) => loaders[position]().then((module) => module.default);',
+        ].join('\n');
+      }
+
+      const chunk = chunks.find(({ slug }) => id === `\0${BANK_MODULE}/${slug}`);
+      // JSON.parse of a string literal is faster to load than the equivalent object literal
+      return chunk ? `export default JSON.parse(${JSON.stringify(JSON.stringify(chunk.entries))});` : undefined;
+    },
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), questionBankChunks(), precacheManifest()],
   optimizeDeps: {
     exclude: ['lucide-react'],
   },